@@ -0,0 +1,98 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { Page } from 'playwright';
+
+const SCREENSHOT_FILE = 'screenshot.png';
+const HTML_FILE = 'page.html';
+const BUNDLE_FILE = 'bundle.json';
+const MAX_ARTIFACT_BUNDLES = 200;
+
+/**
+ * Saves everything needed to debug a failed automation under artifacts/<automation id>/:
+ * a full-page screenshot, the page HTML (without scripts and hidden inputs, see
+ * captureSafeHtml), and bundle.json with the URL, error, request and the console/page
+ * errors the page produced.
+ */
+export async function saveArtifactBundle(
+    artifactsPath: string,
+    page: Page | undefined,
+    bundle: Omit<ArtifactBundle, 'url' | 'files'>
+): Promise<ArtifactBundle> {
+    const bundlePath = path.join(artifactsPath, bundle.automationId);
+    await fs.mkdir(bundlePath, { recursive: true });
+
+    const saved: ArtifactBundle = { ...bundle, url: '', files: {} };
+    // Each capture is best effort: a crashed page still leaves the error and request behind
+    if (page && !page.isClosed()) {
+        saved.url = page.url();
+        try {
+            await page.screenshot({ path: path.join(bundlePath, SCREENSHOT_FILE), fullPage: true, timeout: 10000 });
+            saved.files.screenshot = SCREENSHOT_FILE;
+        } catch (error) {
+            console.error('Failed to capture failure screenshot:', error);
+        }
+        try {
+            await fs.writeFile(path.join(bundlePath, HTML_FILE), await captureSafeHtml(page));
+            saved.files.html = HTML_FILE;
+        } catch (error) {
+            console.error('Failed to capture failure HTML:', error);
+        }
+    }
+
+    await fs.writeFile(path.join(bundlePath, BUNDLE_FILE), JSON.stringify(saved, null, 2));
+    await pruneArtifactBundles(artifactsPath);
+    return saved;
+}
+
+// Scripts and hidden inputs carry session and CSRF tokens, so they never reach the disk
+function captureSafeHtml(page: Page): Promise<string> {
+    return page.evaluate(() => {
+        const root = document.documentElement.cloneNode(true) as HTMLElement;
+        root.querySelectorAll('script, input[type="hidden"]').forEach(element => element.remove());
+        return `<!DOCTYPE html>\n${root.outerHTML}`;
+    });
+}
+
+export async function loadArtifactBundle(artifactsPath: string, automationId: string): Promise<ArtifactBundle | null> {
+    // Automation IDs are UUIDs; reject anything that could escape the directory
+    if (!/^[\w-]+$/.test(automationId)) return null;
+    try {
+        const content = await fs.readFile(path.join(artifactsPath, automationId, BUNDLE_FILE), 'utf-8');
+        return JSON.parse(content) as ArtifactBundle;
+    } catch {
+        return null;
+    }
+}
+
+// The bundle with its files inlined, for download or display in the app
+export async function exportArtifactBundle(artifactsPath: string, automationId: string): Promise<ArtifactBundleExport | null> {
+    const bundle = await loadArtifactBundle(artifactsPath, automationId);
+    if (!bundle) return null;
+
+    const bundlePath = path.join(artifactsPath, automationId);
+    const read = (file: string | undefined, encoding: BufferEncoding) =>
+        file ? fs.readFile(path.join(bundlePath, file), encoding).catch(() => undefined) : Promise.resolve(undefined);
+    const screenshot = await read(bundle.files.screenshot, 'base64');
+
+    return {
+        ...bundle,
+        screenshotDataUrl: screenshot && `data:image/png;base64,${screenshot}`,
+        html: await read(bundle.files.html, 'utf-8')
+    };
+}
+
+// Keep only the newest bundles
+async function pruneArtifactBundles(artifactsPath: string) {
+    const entries = await fs.readdir(artifactsPath, { withFileTypes: true });
+    const bundles = await Promise.all(entries
+        .filter(entry => entry.isDirectory())
+        .map(async entry => ({
+            name: entry.name,
+            mtime: (await fs.stat(path.join(artifactsPath, entry.name))).mtimeMs
+        })));
+
+    const stale = bundles.sort((a, b) => b.mtime - a.mtime).slice(MAX_ARTIFACT_BUNDLES);
+    await Promise.all(stale.map(bundle =>
+        fs.rm(path.join(artifactsPath, bundle.name), { recursive: true, force: true })
+    ));
+}
@@ -0,0 +1,166 @@
+import { errors, Page } from 'playwright';
+
+/**
+ * Error taxonomy for automations. Every failure is reduced to an AutomationErrorClass,
+ * which picks the retry policy in AutomationSettings.retryPolicies and is reported in
+ * AutomationStatus, AutomationResult and HTTP error responses.
+ */
+export class AutomationError extends Error {
+    constructor(readonly errorClass: AutomationErrorClass, message: string, options?: ErrorOptions) {
+        super(message, options);
+        this.name = 'AutomationError';
+    }
+}
+
+// The Seller Central session expired and could not be restored
+export class AuthenticationError extends AutomationError {
+    constructor(message = 'Login required', options?: ErrorOptions) {
+        super('authentication', message, options);
+        this.name = 'AuthenticationError';
+    }
+}
+
+// An element never showed up, usually because Seller Central changed its markup
+export class SelectorTimeoutError extends AutomationError {
+    constructor(message: string, options?: ErrorOptions) {
+        super('selectorTimeout', message, options);
+        this.name = 'SelectorTimeoutError';
+    }
+}
+
+// Seller Central didn't load: network errors, timeouts and crashed pages during navigation
+export class NavigationError extends AutomationError {
+    constructor(message: string, options?: ErrorOptions) {
+        super('navigation', message, options);
+        this.name = 'NavigationError';
+    }
+}
+
+// Amazon rejected the listing itself (duplicate SKU, invalid price...); retrying won't help
+export class AmazonValidationError extends AutomationError {
+    constructor(message: string, options?: ErrorOptions) {
+        super('validation', message, options);
+        this.name = 'AmazonValidationError';
+    }
+}
+
+// The computed listing price is outside the pricing rules' allowed range, most likely a typo
+export class PriceSanityError extends AutomationError {
+    constructor(message: string, options?: ErrorOptions) {
+        super('validation', message, options);
+        this.name = 'PriceSanityError';
+    }
+}
+
+// A request without a price, and no used offer on the page to match
+export class MissingPriceError extends AutomationError {
+    constructor(message: string, options?: ErrorOptions) {
+        super('validation', message, options);
+        this.name = 'MissingPriceError';
+    }
+}
+
+// The account needs approval to list this ASIN, brand or category
+export class RestrictedAsinError extends AutomationError {
+    constructor(message: string, options?: ErrorOptions) {
+        super('restrictedAsin', message, options);
+        this.name = 'RestrictedAsinError';
+    }
+}
+
+// Thrown at the next step boundary after a user cancels an automation
+export class AutomationCancelledError extends AutomationError {
+    constructor() {
+        super('cancelled', 'Automation cancelled by user');
+        this.name = 'AutomationCancelledError';
+    }
+}
+
+export class PrintingError extends AutomationError {
+    constructor(message: string, options?: ErrorOptions) {
+        super('printing', message, options);
+        this.name = 'PrintingError';
+    }
+}
+
+const NO_RETRY: RetryPolicy = { maxRetries: 0, backoffMs: 0, backoffMultiplier: 1, escalation: 'none' };
+
+export const DEFAULT_RETRY_POLICIES: Record<AutomationErrorClass, RetryPolicy> = {
+    // Sign in again, then the job goes back in the queue
+    authentication: { ...NO_RETRY, escalation: 'reauthenticate' },
+    selectorTimeout: { maxRetries: 2, backoffMs: 5000, backoffMultiplier: 2, escalation: 'notify' },
+    navigation: { maxRetries: 3, backoffMs: 10000, backoffMultiplier: 2, escalation: 'notify' },
+    validation: { ...NO_RETRY, escalation: 'notify' },
+    restrictedAsin: { ...NO_RETRY, escalation: 'notify' },
+    cancelled: NO_RETRY,
+    printing: { maxRetries: 2, backoffMs: 2000, backoffMultiplier: 2, escalation: 'notify' },
+    unknown: { maxRetries: 1, backoffMs: 5000, backoffMultiplier: 2, escalation: 'none' }
+};
+
+// Saved policies may be partial or predate a class; fill the gaps from the defaults
+export function mergeRetryPolicies(saved?: Partial<Record<AutomationErrorClass, Partial<RetryPolicy>>>) {
+    const policies = { ...DEFAULT_RETRY_POLICIES };
+    for (const errorClass of Object.keys(policies) as AutomationErrorClass[]) {
+        policies[errorClass] = { ...policies[errorClass], ...saved?.[errorClass] };
+    }
+    return policies;
+}
+
+export function classifyError(error: unknown): AutomationErrorClass {
+    if (error instanceof AutomationError) {
+        return error.errorClass;
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    if (/login required|\/signin/i.test(message)) {
+        return 'authentication';
+    }
+    // Checked before timeouts: a page.goto timeout is a navigation problem, not a selector one
+    if (/net::ERR_|NS_ERROR_|ECONNREFUSED|ECONNRESET|ENOTFOUND|page\.goto|page\.waitForURL|Target page, context or browser has been closed/i.test(message)) {
+        return 'navigation';
+    }
+    if (error instanceof errors.TimeoutError || /waiting for (locator|selector)/i.test(message)) {
+        return 'selectorTimeout';
+    }
+    return 'unknown';
+}
+
+// Seller Central's message for a rejected offer decides between a restriction and a validation error
+export function listingRejectionError(message: string): AutomationError {
+    return /approval|restricted|not eligible|not authorized/i.test(message)
+        ? new RestrictedAsinError(message)
+        : new AmazonValidationError(message);
+}
+
+// Open a Seller Central page; failing to load it is reported as a NavigationError
+export async function gotoPage(page: Page, url: string, timeout = 30000) {
+    try {
+        await page.goto(url, { waitUntil: 'domcontentloaded', timeout });
+    } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new NavigationError(`Could not load ${url}: ${reason}`, { cause: error });
+    }
+}
+
+// Delay before retry number `retry` (0-based)
+export function getRetryDelay(policy: RetryPolicy, retry: number): number {
+    return Math.round(policy.backoffMs * Math.pow(policy.backoffMultiplier, retry));
+}
+
+// Run `action`, retrying failures with the policy's backoff. Escalation is left to the caller.
+export async function retryWithPolicy<T>(
+    policy: RetryPolicy,
+    action: () => Promise<T>,
+    onRetry?: (error: unknown, retry: number, delayMs: number) => void
+): Promise<T> {
+    for (let retry = 0; ; retry++) {
+        try {
+            return await action();
+        } catch (error) {
+            if (retry >= policy.maxRetries) throw error;
+            const delay = getRetryDelay(policy, retry);
+            onRetry?.(error, retry + 1, delay);
+            await new Promise(resolve => setTimeout(resolve, delay));
+        }
+    }
+}
@@ -0,0 +1,64 @@
+import { EventEmitter } from 'events';
+
+// Events broadcast to external listeners such as the HTTP event stream
+export type AutomationEventMap = {
+    automationStatus: AutomationStatus;
+    activeAutomationsCount: number;
+    reauthRequired: { automationId?: string };
+    reauthComplete: { success: boolean; error?: string; unattended?: boolean };
+    printJob: PrintJobEvent;
+    // Result of a background session check or of a fresh login
+    sessionHealth: SessionHealthEvent;
+    // A failure used up its retries and its policy asked for a notification
+    automationEscalated: { automationId?: string; errorClass: AutomationErrorClass; message: string };
+};
+
+export type PrintJobEvent = {
+    status: 'started' | 'completed' | 'failed';
+    fnsku: string;
+    sku: string;
+    asin: string;
+    printer: string;
+    automationId?: string;
+    error?: string;
+};
+
+export type AutomationEvent = {
+    [Key in keyof AutomationEventMap]: {
+        type: Key;
+        payload: AutomationEventMap[Key];
+        timestamp: string;
+    }
+}[keyof AutomationEventMap];
+
+const emitter = new EventEmitter();
+// Every open stream adds a listener, so don't warn about "leaks"
+emitter.setMaxListeners(0);
+
+export function emitAutomationEvent<Key extends keyof AutomationEventMap>(
+    type: Key,
+    payload: AutomationEventMap[Key]
+) {
+    emitter.emit('event', { type, payload, timestamp: new Date().toISOString() });
+}
+
+export function subscribeAutomationEvents(listener: (event: AutomationEvent) => void) {
+    emitter.on('event', listener);
+    return () => {
+        emitter.off('event', listener);
+    };
+}
+
+// The automation an event belongs to, or undefined for app-wide events
+export function getEventAutomationId(event: AutomationEvent): string | undefined {
+    switch (event.type) {
+        case 'automationStatus':
+            return event.payload.id;
+        case 'reauthRequired':
+        case 'printJob':
+        case 'automationEscalated':
+            return event.payload.automationId;
+        default:
+            return undefined;
+    }
+}
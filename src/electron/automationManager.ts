@@ -1,15 +1,43 @@
-import { firefox, Browser, Page } from 'playwright';
+import { firefox, Browser, BrowserContext, Page } from 'playwright';
 import path from 'path';
 import { app } from 'electron';
 import { v4 as uuidv4 } from 'uuid';
 import { ipcWebContentsSend, execPromise } from './util.js';
-import { BrowserWindow } from 'electron';
+import { BrowserWindow, Notification } from 'electron';
 import fs from 'fs/promises';
 import { existsSync } from 'fs';
 import { generateLabel } from './labelGenerator.js';
 import { print, isPrintComplete } from 'unix-print';
 import { dialog } from 'electron';
 import { ipcMain } from 'electron';
+import { JobStore } from './jobStore.js';
+import { IdempotencyStore, getIdempotencyKey } from './idempotencyStore.js';
+import { emitAutomationEvent } from './automationEvents.js';
+import { BrowserPool, BrowserLease } from './browserPool.js';
+import { AutomationScheduler } from './automationScheduler.js';
+import { parseBatchRows, saveBatch, loadBatch, batchReportToCsv, AutomationBatch } from './batchImport.js';
+import { toCsv } from './csv.js';
+import {
+    scrapeTable, toInventoryRows, toOrderRows, TableColumns, TableCells,
+    INVENTORY_COLUMNS, ORDER_COLUMNS, INVENTORY_CSV_COLUMNS, ORDER_CSV_COLUMNS
+} from './sellerCentralTables.js';
+import { SelectorRegistry } from './selectorRegistry.js';
+import { DEFAULT_PRICING_RULES, computeListingPricing, validatePricingRules, needsMarketPrices } from './pricingRules.js';
+import { captureMarketPrices } from './marketPrices.js';
+import { DEFAULT_PROFILE, migrateProfiles, validateProfiles, getProfileDir } from './sellerProfiles.js';
+import { getAssetPath } from './pathResolver.js';
+import { startFakeSellerCentral, FakeSellerCentral } from './fakeSellerCentral.js';
+import { saveArtifactBundle, exportArtifactBundle } from './artifacts.js';
+import { getTraceFile, listTraceFiles, pruneTraces } from './traces.js';
+import { openBrowserViewer } from './browserViewer.js';
+import { SessionMonitor, StorageState, getSessionExpiry, describeSession, describeSessionWarning } from './sessionMonitor.js';
+import { loadStorageState, saveStorageState, migratePlaintextState } from './storageStateVault.js';
+import { loadCredentials, saveCredentials, deleteCredentials, describeCredentials } from './credentialVault.js';
+import { signInUnattended } from './unattendedLogin.js';
+import {
+    AuthenticationError, AutomationCancelledError, SelectorTimeoutError, DEFAULT_RETRY_POLICIES,
+    classifyError, listingRejectionError, getRetryDelay, mergeRetryPolicies, gotoPage
+} from './automationErrors.js';
 
 // Create a logging utility
 const log = {
@@ -43,21 +71,79 @@ type RunningAutomation = {
     id: string;
     browser: Browser;
     page: Page;
+    lease?: BrowserLease; // Pooled context, released instead of closing the browser
+    profile: SellerProfile;
     status: AutomationStatus;
-    result?: {
-        fnsku?: string;
-        error?: string;
-    };
+    result?: AutomationResult;
     timeoutId?: NodeJS.Timeout;
+    cancelRequested?: boolean;
+    pausedByUser?: boolean;
 }
 
 type PendingAutomation = {
     request: AutomationRequest;
     startTime: number;
     retryCount: number;
-    originalId?: string;
+    originalId: string;
 }
 
+const DEFAULT_AUTOMATION_SETTINGS: AutomationSettings = {
+    browserPool: {
+        maxBrowsers: 1,
+        maxConcurrency: 3,
+        recycleAfterJobs: 25
+    },
+    scheduler: {
+        maxConcurrent: 2,
+        typeLimits: {
+            createListing: 1
+        }
+    },
+    tracing: {
+        enabled: false,
+        maxTraces: 20
+    },
+    sessionMonitor: {
+        enabled: true,
+        intervalMinutes: 30,
+        warnBeforeMinutes: 120
+    },
+    headless: false,
+    retryPolicies: DEFAULT_RETRY_POLICIES,
+    pricing: DEFAULT_PRICING_RULES,
+    profiles: [DEFAULT_PROFILE],
+    activeProfile: DEFAULT_PROFILE.name,
+    simulationMode: false
+};
+
+// Port of the bundled fake Seller Central used in simulation mode
+const FAKE_SELLER_CENTRAL_PORT = 3457;
+
+// Firefox preferences for the pooled automation browsers
+const AUTOMATION_FIREFOX_PREFS = {
+    'dom.webdriver.enabled': false,
+    'privacy.trackingprotection.enabled': false,
+    'network.cookie.cookieBehavior': 0,
+    'intl.accept_languages': 'en-US, en',
+    'privacy.resistFingerprinting': false,
+    'browser.cache.disk.enable': false,
+    'browser.cache.memory.enable': true,
+    'browser.sessionhistory.max_entries': 0,
+    'dom.ipc.processCount': 1
+};
+
+const INVENTORY_PATH = '/myinventory/inventory';
+const ORDERS_PATH = '/orders-v3';
+const MAX_TABLE_PAGES = 100;
+// Orders automation looks this far back when no fromDate is given
+const DEFAULT_ORDER_RANGE_DAYS = 7;
+
+// Console messages and page errors kept per page for failure artifacts
+const MAX_PAGE_DIAGNOSTICS = 500;
+
+// Jobs that were interrupted this many times are failed instead of resumed again
+const MAX_JOB_ATTEMPTS = 3;
+
 class AutomationManager {
     private runningAutomations: Map<string, RunningAutomation> = new Map();
     private pendingAutomations: PendingAutomation[] = [];
@@ -68,6 +154,29 @@ class AutomationManager {
     private profilesPath: string;
     private configPath: string;
     private settingsPath: string;
+    private batchesPath: string;
+    private artifactsPath: string;
+    private pageDiagnostics: WeakMap<Page, PageDiagnostic[]> = new WeakMap();
+    private tracesPath: string;
+    private tracedContexts: WeakSet<BrowserContext> = new WeakSet();
+    // Jobs sleeping before an automatic retry, mapped to a function that cancels the wait
+    private retryWaits: Map<string, () => void> = new Map();
+    // Open live views, mapped to a function that closes them
+    private browserViewers: Map<string, () => void> = new Map();
+    private jobStore: JobStore;
+    private browserPool: BrowserPool;
+    private scheduler: AutomationScheduler;
+    private sessionMonitor: SessionMonitor;
+    private selectors: SelectorRegistry;
+    private selectorsLoaded: Promise<unknown>;
+    private settingsLoaded: Promise<unknown>;
+    private idempotencyKeys: IdempotencyStore;
+    private idempotencyKeysLoaded: Promise<void>;
+    // Settles once settings, selectors and the job store have loaded and unfinished jobs resumed
+    private initialized: Promise<void>;
+    private simulator: FakeSellerCentral | null = null;
+    private queuedAutomations: Map<string, AutomationStatus> = new Map();
+    private automationSettings: AutomationSettings = DEFAULT_AUTOMATION_SETTINGS;
     private printerName: string = '';
     private isReauthenticating: boolean = false;
     private authBrowser: Browser | null = null;
@@ -89,6 +198,28 @@ class AutomationManager {
         this.profilesPath = path.join(baseDir, 'profiles');
         this.configPath = path.join(this.profilesPath, 'config.json');
         this.settingsPath = path.join(baseDir, 'settings.json');
+        this.batchesPath = path.join(this.profilesPath, 'batches');
+        this.artifactsPath = path.join(this.profilesPath, 'artifacts');
+        this.tracesPath = path.join(this.profilesPath, 'traces');
+        this.jobStore = new JobStore(this.profilesPath);
+        this.idempotencyKeys = new IdempotencyStore(this.profilesPath);
+        this.browserPool = new BrowserPool(
+            () => this.launchBrowser({ firefoxUserPrefs: AUTOMATION_FIREFOX_PREFS }),
+            (browser, profile) => this.createBrowserContext(browser, profile),
+            () => this.automationSettings.browserPool
+        );
+        this.scheduler = new AutomationScheduler(
+            () => this.automationSettings.scheduler,
+            positions => this.updateQueuePositions(positions)
+        );
+        this.sessionMonitor = new SessionMonitor(
+            () => this.automationSettings.sessionMonitor,
+            () => this.checkAllSessions()
+        );
+        this.selectors = new SelectorRegistry(
+            path.join(getAssetPath(), 'selectors.json'),
+            path.join(baseDir, 'selectors.json')
+        );
         
         log.info('Initializing AutomationManager', {
             baseDir,
@@ -104,8 +235,16 @@ class AutomationManager {
         });
         
         this.initializeDirectories();
-        this.loadSettings();
+        this.selectorsLoaded = this.selectors.load()
+            .then(() => this.selectors.watch())
+            .catch(error => log.error('Failed to load selector registry:', error));
+        this.settingsLoaded = this.loadSettings().then(() => this.applySimulationMode());
+        this.settingsLoaded.then(() => this.encryptPlaintextSessions());
+        this.settingsLoaded.then(() => this.warmUpBrowserPool());
+        this.settingsLoaded.then(() => this.sessionMonitor.start());
+        this.idempotencyKeysLoaded = this.idempotencyKeys.load();
         this.initializePrinter();
+        this.initialized = this.resumeUnfinishedJobs();
 
         // Send initial active count
         this.updateActiveAutomationCount();
@@ -122,23 +261,9 @@ class AutomationManager {
             const defaultProfilePath = path.join(this.profilesPath, 'default');
             await fs.mkdir(defaultProfilePath, { recursive: true });
             
-            // Create storage.json if it doesn't exist
-            const storagePath = path.join(this.profilesPath, 'storage.json');
-            try {
-                await fs.access(storagePath);
-                log.info('storage.json already exists');
-            } catch {
-                log.info('Creating empty storage.json');
-                await fs.writeFile(storagePath, JSON.stringify({
-                    cookies: [],
-                    origins: []
-                }));
-            }
-
             log.info('Directory initialization complete', {
                 profilesPath: this.profilesPath,
-                defaultProfilePath: defaultProfilePath,
-                storagePath: storagePath
+                defaultProfilePath: defaultProfilePath
             });
         } catch (error) {
             log.error('Failed to create profile directories:', error);
@@ -158,20 +283,210 @@ class AutomationManager {
         }
     }
 
-    private async saveConfig(config: SetupStatus) {
+    // Sessions saved in plain JSON by older versions are encrypted right away, not on first use
+    private async encryptPlaintextSessions() {
+        for (const profile of this.automationSettings.profiles) {
+            for (const fileName of ['storage.enc', 'storage-simulation.enc']) {
+                await migratePlaintextState(path.join(getProfileDir(this.profilesPath, profile), fileName)).catch(error => {
+                    log.error(`Failed to encrypt the saved session of profile ${profile.name}:`, error);
+                });
+            }
+        }
+    }
+
+    // Start a pooled browser early once the account is configured
+    private async warmUpBrowserPool() {
+        try {
+            const setupStatus = await this.getSetupStatus();
+            if (setupStatus.isConfigured) {
+                await this.browserPool.warmUp();
+            }
+        } catch (error) {
+            log.error('Failed to warm up browser pool:', error);
+        }
+    }
+
+    // Close every pooled browser before the app quits
+    async shutdown() {
+        this.selectors.close();
+        this.sessionMonitor.stop();
+        await this.browserPool.shutdown();
+        await this.simulator?.close();
+    }
+
+    // Start or stop the bundled fake Seller Central to match the simulation setting
+    private async applySimulationMode() {
+        try {
+            if (this.automationSettings.simulationMode && !this.simulator) {
+                this.simulator = await startFakeSellerCentral(FAKE_SELLER_CENTRAL_PORT);
+                log.info('Simulation mode enabled', { url: this.simulator.url });
+            } else if (!this.automationSettings.simulationMode && this.simulator) {
+                await this.simulator.close();
+                this.simulator = null;
+                log.info('Simulation mode disabled');
+            }
+        } catch (error) {
+            log.error('Failed to start fake Seller Central:', error);
+        }
+    }
+
+    // The named seller profile, or the active one when no name is given
+    private findProfile(name?: string): SellerProfile | undefined {
+        const profileName = name ?? this.automationSettings.activeProfile;
+        return this.automationSettings.profiles.find(profile => profile.name === profileName);
+    }
+
+    private getProfile(name?: string): SellerProfile {
+        const profile = this.findProfile(name);
+        if (!profile) {
+            throw new Error(`Unknown seller profile "${name}"`);
+        }
+        return profile;
+    }
+
+    async hasProfile(name: string): Promise<boolean> {
+        await this.settingsLoaded;
+        return this.findProfile(name) !== undefined;
+    }
+
+    // Fix the profile of a new request, so changing the active profile later doesn't move it
+    private withProfile(request: AutomationRequest): AutomationRequest {
+        return { ...request, profile: this.getProfile(request.profile).name };
+    }
+
+    // Seller Central origin the profile's automations navigate to
+    private getBaseUrl(profile: SellerProfile): string {
+        return this.simulator?.url ?? profile.sellerCentralUrl.replace(/\/$/, '');
+    }
+
+    // The simulated session and setup state are kept apart from the real account's.
+    // The session is encrypted (see storageStateVault.ts).
+    private getStoragePath(profile: SellerProfile): string {
+        const fileName = this.automationSettings.simulationMode ? 'storage-simulation.enc' : 'storage.enc';
+        return path.join(getProfileDir(this.profilesPath, profile), fileName);
+    }
+
+    private getConfigPath(profile: SellerProfile): string {
+        const fileName = this.automationSettings.simulationMode ? 'config-simulation.json' : 'config.json';
+        return path.join(getProfileDir(this.profilesPath, profile), fileName);
+    }
+
+    getAutomationSettings(): AutomationSettings {
+        return this.automationSettings;
+    }
+
+    async updateAutomationSettings(settings: Partial<AutomationSettings>): Promise<AutomationSettings> {
+        await this.settingsLoaded;
+        const wasHeadless = this.automationSettings.headless;
+        const updated = { ...this.automationSettings, ...settings };
+        validateProfiles(updated.profiles, updated.activeProfile);
+        validatePricingRules(updated.pricing);
+        this.automationSettings = updated;
+        await this.saveSettings();
+        await this.applySimulationMode();
+        if (this.automationSettings.headless !== wasHeadless) {
+            // Pooled browsers were launched in the old mode
+            await this.browserPool.recycleAll();
+        }
+        if (settings.sessionMonitor) {
+            this.sessionMonitor.restart();
+        }
+        return this.automationSettings;
+    }
+
+    // Open or close the live view of a running automation's page
+    setBrowserVisible(id: string, visible: boolean): boolean {
+        const automation = this.runningAutomations.get(id);
+        if (!visible) {
+            this.browserViewers.get(id)?.();
+            return true;
+        }
+        if (!automation) return false;
+        if (this.browserViewers.has(id)) return true;
+
+        const title = `Automation ${automation.status.details?.sku ?? id.slice(0, 8)}`;
+        const close = openBrowserViewer(automation.page, title, () => {
+            this.browserViewers.delete(id);
+            if (this.runningAutomations.get(id) === automation) {
+                this.updateAutomationStatus(automation, { browserVisible: false });
+            }
+        });
+        this.browserViewers.set(id, close);
+        this.updateAutomationStatus(automation, { browserVisible: true });
+        return true;
+    }
+
+    async reloadSelectors() {
+        return this.selectors.load();
+    }
+
+    getSelectorRegistryInfo() {
+        return this.selectors.getInfo();
+    }
+
+    // Re-queue every job that was queued or running when the app last quit
+    private async resumeUnfinishedJobs() {
+        try {
+            await Promise.all([this.selectorsLoaded, this.settingsLoaded]);
+            await this.jobStore.load();
+            const unfinished = this.jobStore.getUnfinished();
+            log.info('Resuming unfinished automation jobs', { count: unfinished.length });
+
+            for (const job of unfinished) {
+                if (job.attempts >= MAX_JOB_ATTEMPTS) {
+                    log.error(`Job ${job.id} was interrupted ${job.attempts} times, marking as failed`);
+                    await this.jobStore.update(job.id, {
+                        state: 'failed',
+                        result: { error: `Interrupted after ${job.attempts} attempts` }
+                    });
+                    continue;
+                }
+
+                await this.jobStore.update(job.id, { state: 'queued' });
+                this.runJob(job.id, job.request).catch(error => {
+                    log.error(`Failed to resume job ${job.id}:`, error);
+                });
+            }
+        } catch (error) {
+            log.error('Failed to resume unfinished jobs:', error);
+        }
+    }
+
+    // Persist the final result of a job
+    private async recordJobResult(id: string, result: AutomationResult) {
+        const state: AutomationJobState = result.cancelled ? 'cancelled' : result.error ? 'failed' : 'succeeded';
+        const job = await this.jobStore.update(id, {
+            state,
+            result
+        }).catch(error => log.error('Failed to record job result:', error));
+
+        const idempotencyKey = job && getIdempotencyKey(job.request, this.automationSettings);
+        if (idempotencyKey) {
+            this.idempotencyKeys.recordResult(idempotencyKey, id, result);
+        }
+    }
+
+    private async saveConfig(config: SetupStatus, profile: SellerProfile) {
         try {
-            log.info('Saving config', config);
-            await fs.writeFile(this.configPath, JSON.stringify(config, null, 2));
+            log.info('Saving config', { profile: profile.name, ...config });
+            const configPath = this.getConfigPath(profile);
+            await fs.mkdir(path.dirname(configPath), { recursive: true });
+            await fs.writeFile(configPath, JSON.stringify(config, null, 2));
         } catch (error) {
             log.error('Failed to save config:', error);
         }
     }
 
-    async getSetupStatus(): Promise<SetupStatus> {
+    async getSetupStatus(profileName?: string): Promise<SetupStatus> {
+        await this.settingsLoaded;
+        const profile = this.getProfile(profileName);
         try {
-            const data = await fs.readFile(this.configPath, 'utf-8');
+            const data = await fs.readFile(this.getConfigPath(profile), 'utf-8');
             const config = JSON.parse(data) as SetupStatus;
             log.info('Retrieved setup status', config);
+            if (config.session) {
+                config.session = describeSession(config.session, this.automationSettings.sessionMonitor.warnBeforeMinutes);
+            }
             return config;
         } catch (error) {
             log.info('No config found, returning default status');
@@ -179,22 +494,225 @@ class AutomationManager {
         }
     }
 
+    // Encrypt and save the context's cookies and local storage as the profile's session
+    private async saveSession(profile: SellerProfile, context: BrowserContext): Promise<StorageState> {
+        const storageState = await context.storageState();
+        await saveStorageState(this.getStoragePath(profile), storageState);
+        return storageState;
+    }
+
+    // Mark the profile configured after a login, with its session health read from the fresh cookies
+    private async recordLogin(profile: SellerProfile, storageState: StorageState) {
+        const session = this.assessSession(storageState);
+        await this.saveConfig({
+            isConfigured: true,
+            lastLogin: new Date().toISOString(),
+            session
+        }, profile);
+        this.publishSessionHealth(profile, session);
+    }
+
+    private assessSession(storageState: StorageState): SessionHealth {
+        return describeSession({
+            state: 'valid',
+            checkedAt: new Date().toISOString(),
+            expiresAt: getSessionExpiry(storageState)?.toISOString()
+        }, this.automationSettings.sessionMonitor.warnBeforeMinutes);
+    }
+
+    // Check every profile's session; run periodically by the session monitor
+    private async checkAllSessions() {
+        await Promise.all([this.selectorsLoaded, this.settingsLoaded]);
+        for (const profile of this.automationSettings.profiles) {
+            await this.checkSession(profile).catch(error => {
+                log.error(`Session check for profile ${profile.name} failed:`, error);
+            });
+        }
+    }
+
+    async getCredentials(profileName?: string): Promise<CredentialsInfo> {
+        await this.settingsLoaded;
+        const profile = this.getProfile(profileName);
+        return describeCredentials(await loadCredentials(getProfileDir(this.profilesPath, profile)));
+    }
+
+    async setCredentials(credentials: SellerCredentials, profileName?: string): Promise<CredentialsInfo> {
+        await this.settingsLoaded;
+        const profile = this.getProfile(profileName);
+        await saveCredentials(getProfileDir(this.profilesPath, profile), credentials);
+        log.info('Saved sign-in credentials', { profile: profile.name, hasTotp: !!credentials.totpSecret });
+        return this.getCredentials(profile.name);
+    }
+
+    async deleteCredentials(profileName?: string): Promise<CredentialsInfo> {
+        await this.settingsLoaded;
+        const profile = this.getProfile(profileName);
+        await deleteCredentials(getProfileDir(this.profilesPath, profile));
+        log.info('Deleted sign-in credentials', { profile: profile.name });
+        return describeCredentials();
+    }
+
+    /**
+     * Sign in again without a person, using the profile's stored credentials. Returns false
+     * when there are none or Amazon wants something they can't answer (a CAPTCHA, an
+     * approval request...), so the caller can fall back to the interactive popup.
+     */
+    private async reauthenticateUnattended(profile: SellerProfile): Promise<boolean> {
+        let credentials: SellerCredentials | undefined;
+        try {
+            credentials = await loadCredentials(getProfileDir(this.profilesPath, profile));
+        } catch (error) {
+            log.error('Failed to read sign-in credentials:', error);
+        }
+        if (!credentials) return false;
+
+        await this.selectorsLoaded;
+        log.info('Signing in with stored credentials', { profile: profile.name });
+        let browser: Browser | null = null;
+        try {
+            browser = await this.launchBrowser({ headless: true });
+            const context = await browser.newContext({
+                userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10.15; rv:122.0) Gecko/20100101 Firefox/122.0',
+                viewport: { width: 1500, height: 900 },
+                locale: profile.locale,
+                // The expired session still carries Amazon's device cookies, which make a challenge less likely
+                storageState: await loadStorageState(this.getStoragePath(profile))
+            });
+            const page = await context.newPage();
+            await signInUnattended(page, this.getBaseUrl(profile), credentials, this.selectors.forLocale(profile.locale));
+
+            await this.recordLogin(profile, await this.saveSession(profile, context));
+            log.info('Signed in with stored credentials', { profile: profile.name });
+            return true;
+        } catch (error) {
+            log.error('Unattended sign-in failed, asking for an interactive login:', error);
+            return false;
+        } finally {
+            await browser?.close().catch(error => log.error('Error closing sign-in browser:', error));
+        }
+    }
+
+    // Check one profile's session now instead of waiting for the monitor
+    async checkSessionNow(profileName?: string): Promise<SetupStatus> {
+        await Promise.all([this.selectorsLoaded, this.settingsLoaded]);
+        const profile = this.getProfile(profileName);
+        await this.checkSession(profile);
+        return this.getSetupStatus(profile.name);
+    }
+
+    /**
+     * Open Seller Central's home page with the profile's saved session. A session that still
+     * works has its refreshed cookies saved back, which also keeps it alive; one that lands on
+     * the sign-in page has expired.
+     */
+    private async checkSession(profile: SellerProfile) {
+        const config = await this.getSetupStatus(profile.name);
+        // Nothing to check before setup, and a re-login is about to replace the session anyway
+        if (!config.isConfigured || this.isReauthenticating) return;
+
+        let session: SessionHealth;
+        const lease = await this.browserPool.acquire(profile);
+        try {
+            const page = await lease.context.newPage();
+            await gotoPage(page, `${this.getBaseUrl(profile)}/home`);
+            const signedOut = page.url().includes('signin') ||
+                await this.selectors.forLocale(profile.locale).find(page, 'login.passwordInput') !== null;
+
+            session = signedOut
+                ? { state: 'expired', checkedAt: new Date().toISOString() }
+                : this.assessSession(await this.saveSession(profile, lease.context));
+        } catch (error) {
+            // Keep what the last check knew; a network hiccup says nothing about the session
+            session = {
+                ...(config.session ?? { state: 'unknown' }),
+                checkedAt: new Date().toISOString(),
+                error: error instanceof Error ? error.message : 'Unknown error occurred'
+            };
+        } finally {
+            await lease.release();
+        }
+
+        log.info('Checked session', { profile: profile.name, ...session });
+        await this.saveConfig({ ...config, session }, profile);
+        this.publishSessionHealth(profile, session, config.session);
+    }
+
+    // Tell the UI, tray and event stream; notify once when a session starts expiring or expires
+    private publishSessionHealth(profile: SellerProfile, session: SessionHealth, previous?: SessionHealth) {
+        const event: SessionHealthEvent = { ...session, profile: profile.name };
+        ipcWebContentsSend('sessionHealth', this.mainWindow.webContents, event);
+        emitAutomationEvent('sessionHealth', event);
+
+        const warning = describeSessionWarning(event);
+        if (warning && session.state !== previous?.state && Notification.isSupported()) {
+            new Notification({ title: 'Seller Central login', body: warning }).show();
+        }
+    }
+
     private updateAutomationStatus(automation: RunningAutomation, update: Partial<AutomationStatus>) {
         automation.status = { ...automation.status, ...update };
         log.info('Updating automation status', {
             automationId: automation.id,
             status: automation.status
         });
-        ipcWebContentsSend('automationStatus', this.mainWindow.webContents, automation.status);
+        this.publishStatus(automation.status);
+    }
+
+    // Send a status to the UI and event stream, and persist it on the job
+    private publishStatus(status: AutomationStatus) {
+        ipcWebContentsSend('automationStatus', this.mainWindow.webContents, status);
+        emitAutomationEvent('automationStatus', status);
+        this.jobStore.update(status.id, { status }).catch(error => {
+            log.error('Failed to persist automation status:', error);
+        });
+    }
+
+    // Publish the new queue position of every waiting automation
+    private updateQueuePositions(positions: Map<string, number>) {
+        for (const [id, queuePosition] of positions) {
+            const status = this.queuedAutomations.get(id);
+            if (!status || status.queuePosition === queuePosition) continue;
+
+            const updated: AutomationStatus = {
+                ...status,
+                queuePosition,
+                message: `Waiting in queue (position ${queuePosition})`
+            };
+            this.queuedAutomations.set(id, updated);
+            this.publishStatus(updated);
+        }
+    }
+
+    // Wait in the scheduler queue until the automation may start
+    private async waitForTurn(id: string, request: AutomationRequest) {
+        this.queuedAutomations.set(id, {
+            id,
+            status: 'queued',
+            progress: 0,
+            details: {
+                sku: request.params?.sku,
+                asin: request.params?.asin
+            }
+        });
+
+        try {
+            await this.scheduler.schedule(id, request.type, request.priority);
+        } finally {
+            this.queuedAutomations.delete(id);
+        }
     }
 
-    async startSetup(): Promise<string> {
+    // Log in to Seller Central once and save the session for the profile (default: the active one)
+    async startSetup(profileName?: string): Promise<string> {
+        await this.settingsLoaded;
+        const profile = this.getProfile(profileName);
         const id = uuidv4();
         const defaultProfilePath = path.join(this.profilesPath, 'default');
 
         try {
             log.info('Starting setup process', {
                 id,
+                profile: profile.name,
                 defaultProfilePath,
                 isPackaged: app.isPackaged,
                 platform: process.platform,
@@ -276,6 +794,7 @@ class AutomationManager {
                 executablePath: firefoxPath
             });
 
+            // Setup is interactive, so it is visible even when automations run headless
             const browser = await firefox.launch({
                 headless: false,
                 executablePath: firefoxPath,
@@ -290,7 +809,9 @@ class AutomationManager {
             const context = await browser.newContext({
                 userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10.15; rv:122.0) Gecko/20100101 Firefox/122.0',
                 viewport: { width: 1500, height: 900 },
-                screen: { width: 1500, height: 900 }
+                screen: { width: 1500, height: 900 },
+                // The same page language the profile's automations will see
+                locale: profile.locale
             }).catch(error => {
                 log.error('Failed to create browser context:', error);
                 throw new Error(`Context creation failed: ${error.message}`);
@@ -309,10 +830,12 @@ class AutomationManager {
                 id,
                 browser,
                 page,
+                profile,
                 status: {
                     id,
                     status: 'running',
-                    progress: 0
+                    progress: 0,
+                    profile: profile.name
                 }
             };
 
@@ -326,7 +849,8 @@ class AutomationManager {
                 });
 
                 log.info('Navigating to Amazon Seller Central...');
-                await page.goto('https://sellercentral.amazon.com/', {
+                const baseUrl = this.getBaseUrl(profile);
+                await page.goto(`${baseUrl}/`, {
                     waitUntil: 'domcontentloaded',
                     timeout: 30000
                 }).catch(error => {
@@ -345,7 +869,7 @@ class AutomationManager {
                 // Wait for navigation to home page after login
                 await page.waitForURL(url => {
                     const urlStr = url.toString();
-                    const isValidUrl = urlStr.includes('sellercentral.amazon.com') && 
+                    const isValidUrl = urlStr.startsWith(baseUrl) && 
                         (urlStr.includes('/home') || urlStr.includes('/dashboard') || urlStr.includes('/inventory'));
                     log.info('URL check:', { url: urlStr, isValid: isValidUrl });
                     return isValidUrl;
@@ -353,9 +877,7 @@ class AutomationManager {
 
                 log.info('Login successful, saving browser state...');
                 // Save the browser state
-                await context.storageState({ 
-                    path: path.join(this.profilesPath, 'storage.json') 
-                }).catch(error => {
+                const storageState = await this.saveSession(profile, context).catch(error => {
                     log.error('Failed to save browser state:', error);
                     throw new Error(`State save failed: ${error.message}`);
                 });
@@ -363,10 +885,7 @@ class AutomationManager {
                 log.info('Browser state saved successfully');
 
                 // Save setup status
-                await this.saveConfig({
-                    isConfigured: true,
-                    lastLogin: new Date().toISOString()
-                });
+                await this.recordLogin(profile, storageState);
 
                 log.info('Setup completed successfully');
 
@@ -420,6 +939,17 @@ class AutomationManager {
                     this.completedResults.set(id, automation.result);
                 }
 
+                // The live view would only show a closed page from here on
+                this.browserViewers.get(id)?.();
+
+                // Pooled automations only give their context back to the pool
+                if (automation.lease) {
+                    await this.saveTrace(automation.id, automation.lease.context);
+                    await automation.lease.release();
+                    log.info('Released pooled browser context', { id });
+                    return;
+                }
+
                 // Check if browser is still connected
                 if (!automation.browser.isConnected()) {
                     log.info('Browser already disconnected', { id });
@@ -456,6 +986,7 @@ class AutomationManager {
                 }
             } finally {
                 this.runningAutomations.delete(id);
+                this.scheduler.release(id);
                 this.updateActiveAutomationCount();
             }
         }
@@ -468,8 +999,8 @@ class AutomationManager {
         let pausedAt: number | null = null;
 
         const checkTimeout = async () => {
-            // If we're re-authenticating, pause the timeout
-            if (this.isReauthenticating) {
+            // If we're re-authenticating or the user paused the automation, pause the timeout
+            if (this.isReauthenticating || automation.pausedByUser) {
                 if (!pausedAt) pausedAt = Date.now();
                 return;
             }
@@ -529,15 +1060,10 @@ class AutomationManager {
         try {
             // Try to save the browser state
             const context = automation.page.context();
-            await context.storageState({ 
-                path: path.join(this.profilesPath, 'storage.json') 
-            });
+            const storageState = await this.saveSession(automation.profile, context);
 
             // Save setup status
-            await this.saveConfig({
-                isConfigured: true,
-                lastLogin: new Date().toISOString()
-            });
+            await this.recordLogin(automation.profile, storageState);
 
             this.updateAutomationStatus(automation, {
                 message: 'Setup completed successfully',
@@ -581,63 +1107,27 @@ class AutomationManager {
             return;
         }
         this.isReauthenticating = true;
+        emitAutomationEvent('reauthRequired', { automationId: triggeringAutomationId });
+
+        // Log in to the account whose session expired
+        const triggeringRequest = triggeringAutomationId ? this.jobStore.get(triggeringAutomationId)?.request : undefined;
+        const profile = this.findProfile(triggeringRequest?.profile) ?? this.getProfile();
 
         try {
-            // Store the triggering automation's details before cleanup
-            let triggeringAutomation: PendingAutomation | undefined;
-            
-            // Pause all other running automations
+            // Pause all running automations; the triggering one already failed and waits in pendingAutomations
             for (const [id, automation] of this.runningAutomations.entries()) {
-                if (id === triggeringAutomationId) {
-                    // Store details of the triggering automation
-                    console.log('\nFetching triggering automation details...');
-                    console.log('Found automation:', automation.status);
-                    
-                    if (automation) {
-                        console.log('\nCreating original request from automation details:');
-                        console.log('Status details:', automation.status.details);
-                        
-                        // Get the original request from the automation details
-                        const originalRequest = {
-                            type: 'createListing' as const,
-                            params: {
-                                sku: automation.status.details?.sku,
-                                asin: automation.status.details?.asin,
-                                price: automation.status.details?.price,
-                                condition: automation.status.details?.condition as "Used - Like New" | "Used - Very Good" | "Used - Good" | "Used - Acceptable",
-                                conditionNotes: automation.status.details?.conditionNotes
-                            }
-                        };
-
-                        console.log('Created original request:', originalRequest);
-
-                        triggeringAutomation = {
-                            request: originalRequest,
-                            startTime: Date.now(),
-                            retryCount: 0,
-                            originalId: triggeringAutomationId
-                        };
-
-                        console.log('\nCreated triggering automation:', triggeringAutomation);
-                        
-                        // Clean up only the triggering automation
-                        await this.cleanupAutomation(id);
-                    }
-                } else {
-                    // Pause other automations
-                    console.log(`Pausing automation ${id}...`);
-                    this.updateAutomationStatus(automation, {
-                        status: 'paused',
-                        message: 'Paused for re-authentication...'
-                    });
-                }
+                console.log(`Pausing automation ${id}...`);
+                this.updateAutomationStatus(automation, {
+                    status: 'paused',
+                    message: 'Paused for re-authentication...'
+                });
             }
 
-            // Add only the triggering automation to pending automations if it exists
-            if (triggeringAutomation) {
-                console.log('\nAdding triggering automation to pending list');
-                this.pendingAutomations = [triggeringAutomation];
-                console.log('Current pending automations:', this.pendingAutomations);
+            // Stored credentials usually get us back in without waking anyone up
+            if (await this.reauthenticateUnattended(profile)) {
+                emitAutomationEvent('reauthComplete', { success: true, unattended: true });
+                await this.retryPendingAutomations();
+                return;
             }
 
             // Create popup window
@@ -740,7 +1230,7 @@ class AutomationManager {
                     <!-- Initial Login State -->
                     <div id="login-state" class="state content active">
                         <p class="message">
-                            Your Amazon Seller Central session has expired.<br>
+                            Your Amazon Seller Central session (${profile.name}) has expired.<br>
                             Please log in again to continue.
                         </p>
                         <div class="buttons">
@@ -821,7 +1311,7 @@ class AutomationManager {
                         case 'login':
                             try {
                                 browserLaunched = true;
-                                await this.startReauthentication(popup);
+                                await this.startReauthentication(popup, profile);
                                 resolve();
                             } catch (error) {
                                 popup.close();
@@ -830,7 +1320,7 @@ class AutomationManager {
                             break;
                         case 'cancel':
                             popup.close();
-                            this.pendingAutomations = [];
+                            this.abandonPendingAutomations('Authentication cancelled');
                             this.isReauthenticating = false;
                             reject(new Error('Authentication cancelled'));
                             break;
@@ -839,7 +1329,7 @@ class AutomationManager {
 
                 popup.on('closed', () => {
                     if (this.isReauthenticating && !browserLaunched) {
-                        this.pendingAutomations = [];
+                        this.abandonPendingAutomations('Authentication cancelled');
                         this.isReauthenticating = false;
                         reject(new Error('Authentication cancelled'));
                     }
@@ -852,7 +1342,7 @@ class AutomationManager {
         }
     }
 
-    private async startReauthentication(popup: BrowserWindow) {
+    private async startReauthentication(popup: BrowserWindow, profile: SellerProfile) {
         try {
             // Get Firefox path using the same method as initial setup
             const firefoxPath = this.getFirefoxPath();
@@ -871,26 +1361,26 @@ class AutomationManager {
             const context = await this.authBrowser.newContext({
                 userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10.15; rv:122.0) Gecko/20100101 Firefox/122.0',
                 viewport: { width: 1500, height: 900 },
-                screen: { width: 1500, height: 900 }
+                screen: { width: 1500, height: 900 },
+                locale: profile.locale
             });
 
             const page = await context.newPage();
             
             // Navigate to Seller Central
-            await page.goto('https://sellercentral.amazon.com/');
+            const baseUrl = this.getBaseUrl(profile);
+            await page.goto(`${baseUrl}/`);
 
             try {
                 // Wait for navigation to home page after login
                 await page.waitForURL(url => {
                     const urlStr = url.toString();
-                    return urlStr.includes('sellercentral.amazon.com') && 
+                    return urlStr.startsWith(baseUrl) && 
                         (urlStr.includes('/home') || urlStr.includes('/dashboard') || urlStr.includes('/inventory'));
                 }, { timeout: 300000 }); // 5 minute timeout
 
                 // Save the session
-                await context.storageState({ 
-                    path: path.join(this.profilesPath, 'storage.json') 
-                });
+                const storageState = await this.saveSession(profile, context);
 
                 // Close auth browser
                 if (this.authBrowser) {
@@ -899,16 +1389,15 @@ class AutomationManager {
                 }
 
                 // Update config
-                await this.saveConfig({
-                    isConfigured: true,
-                    lastLogin: new Date().toISOString()
-                });
+                await this.recordLogin(profile, storageState);
 
                 // Close popup if it's still open
                 if (!popup.isDestroyed()) {
                     popup.close();
                 }
 
+                emitAutomationEvent('reauthComplete', { success: true });
+
                 // Retry pending automations
                 await this.retryPendingAutomations();
 
@@ -931,90 +1420,39 @@ class AutomationManager {
 
             log.error('Failed to start reauth:', error);
             this.isReauthenticating = false;
+            emitAutomationEvent('reauthComplete', {
+                success: false,
+                error: error instanceof Error ? error.message : 'Unknown error occurred'
+            });
             throw error;
         }
     }
 
+    // Drop the automations waiting on re-authentication and fail their jobs
+    private abandonPendingAutomations(reason: string) {
+        for (const pending of this.pendingAutomations) {
+            this.recordJobResult(pending.originalId, { error: reason });
+        }
+        this.pendingAutomations = [];
+        emitAutomationEvent('reauthComplete', { success: false, error: reason });
+    }
+
     private async retryPendingAutomations() {
         console.log('\n=== Starting retryPendingAutomations ===');
         console.log('Current pending automations:', this.pendingAutomations);
         
         this.isReauthenticating = false;
         
-        // Process all pending automations (should only be the triggering one)
         const automations = [...this.pendingAutomations];
         
         // Clear pending automations immediately to prevent duplicates
         this.pendingAutomations = [];
 
-        console.log('\nProcessing automations:', automations);
-
-        // Create a map to track results by original ID
-        const resultPromises = new Map<string, ReturnType<typeof this.createResolvablePromise<RunningAutomation['result']>>>();
-
-        // Start the triggering automation
-        const retryPromises = automations.map(async (pending) => {
-            console.log('\nRetrying automation:', pending);
-            try {
-                // Create a new automation instance with a new ID
-                const newId = uuidv4();
-                console.log('Created new automation ID:', newId);
-                
-                console.log('Creating automation with request:', pending.request);
-                const automation = await this.createAutomation(newId, pending.request);
-                
-                // Store the automation in running automations
-                console.log('Setting new automation in running automations map');
-                this.runningAutomations.set(newId, automation);
-                
-                // Run the automation
-                console.log('Running automation...');
-                const result = await this.runAutomation(automation, pending.request);
-                console.log('Automation result:', result);
-                
-                // If this automation had an original ID, store the result
-                if (pending.originalId) {
-                    console.log('Storing result for original ID:', pending.originalId);
-                    this.completedResults.set(pending.originalId, result);
-                    // Resolve the promise for this original ID
-                    const resolver = resultPromises.get(pending.originalId);
-                    if (resolver) {
-                        console.log('Resolving promise for original ID');
-                        resolver.resolve(result);
-                    }
-                }
-                
-                return { success: true, id: newId, originalId: pending.originalId };
-            } catch (error) {
-                console.error('Failed to retry automation:', error);
-                
-                // If this automation had an original ID, store the error
-                if (pending.originalId) {
-                    const errorResult = {
-                        error: error instanceof Error ? error.message : 'Unknown error occurred'
-                    };
-                    console.log('Storing error result for original ID:', pending.originalId);
-                    this.completedResults.set(pending.originalId, errorResult);
-                    // Reject the promise for this original ID
-                    const resolver = resultPromises.get(pending.originalId);
-                    if (resolver) {
-                        console.log('Rejecting promise for original ID');
-                        resolver.reject(error instanceof Error ? error : new Error('Unknown error occurred'));
-                    }
-                }
-                return { success: false, error, id: null, originalId: pending.originalId };
-            }
-        });
-
-        // Wait for all retries to complete
-        console.log('\nWaiting for retry promises to complete...');
-        const results = await Promise.allSettled(retryPromises);
-        console.log('Retry results:', results);
-
         // Resume all paused automations
         console.log('\nResuming paused automations...');
         for (const [id, automation] of this.runningAutomations.entries()) {
-            if (automation.status.status === 'paused') {
+            // Automations paused by the user stay paused until they resume them
+            if (automation.status.status === 'paused' && !automation.pausedByUser) {
                 console.log(`Resuming automation ${id}...`);
                 this.updateAutomationStatus(automation, {
                     status: 'running',
@@ -1022,115 +1460,345 @@ class AutomationManager {
                 });
             }
         }
+
+        // Retries wait their turn, time out and follow the retry policy like any other attempt
+        for (const pending of automations) {
+            console.log('\nRetrying automation:', pending);
+            this.runJob(pending.originalId, pending.request).catch(error => {
+                log.error(`Retry of automation ${pending.originalId} after re-authentication failed:`, error);
+            });
+        }
+    }
+
+    // New jobs wait for initialization so they are never mistaken for unfinished ones
+    async startAutomation(request: AutomationRequest): Promise<string> {
+        await this.initialized;
+        request = this.withProfile(request);
+        const id = uuidv4();
+        const replayedId = await this.replayIdempotentRequest(request, id);
+        if (replayedId) return replayedId;
+
+        // Persist the request before anything else so it survives a crash or quit
+        await this.jobStore.create(id, request);
+
+        return this.runJob(id, request);
     }
 
-    // Helper method to create a promise with external resolve/reject
-    private createResolvablePromise<T>(): { 
-        promise: Promise<T>, 
-        resolve: (value: T) => void,
-        reject: (error: Error) => void 
-    } {
-        let resolve!: (value: T) => void;
-        let reject!: (error: Error) => void;
-        const promise = new Promise<T>((res, rej) => {
-            resolve = res;
-            reject = rej;
+    // Running, waiting in the scheduler, waiting to retry or waiting on re-authentication
+    private isAutomationLive(id: string): boolean {
+        return this.runningAutomations.has(id)
+            || this.scheduler.isQueued(id)
+            || this.queuedAutomations.has(id)
+            || this.retryWaits.has(id)
+            || this.pendingAutomations.some(pending => pending.originalId === id);
+    }
+
+    // Persist the request and run it in the background, returning the ID immediately
+    async submitAutomation(request: AutomationRequest, id: string = uuidv4()): Promise<string> {
+        await this.initialized;
+        request = this.withProfile(request);
+        const replayedId = await this.replayIdempotentRequest(request, id);
+        if (replayedId) return replayedId;
+
+        await this.jobStore.create(id, request);
+
+        this.runJob(id, request).catch(error => {
+            log.error(`Background automation ${id} failed:`, error);
         });
-        return { promise, resolve, reject };
+
+        return id;
     }
 
-    async startAutomation(request: AutomationRequest): Promise<string> {
+    /**
+     * If the request's idempotency key already belongs to an automation, return that
+     * automation's ID instead of starting a new one: live jobs (running, queued, waiting to
+     * retry or waiting on re-authentication) are only attached to, finished ones return
+     * their result, and failed ones are retried from their failed step.
+     * Returns null when the request should start a new automation (unknown key or the
+     * previous run was cancelled); with `newId`, the key is claimed for it before returning
+     * so a concurrent repeat can't start a second one.
+     */
+    async replayIdempotentRequest(request: AutomationRequest, newId?: string): Promise<string | null> {
+        await Promise.all([this.idempotencyKeysLoaded, this.initialized]);
+        const key = getIdempotencyKey(request, this.automationSettings);
+        if (!key) return null;
+
+        const record = this.idempotencyKeys.get(key);
+        const startNew = () => {
+            if (newId) this.idempotencyKeys.claim(key, newId);
+            return null;
+        };
+        if (!record) return startNew();
+
+        const id = record.automationId;
+        const job = this.jobStore.get(id);
+        const result = job?.result ?? record.result;
+        if (this.isAutomationLive(id) || job?.state === 'queued' || job?.state === 'running') {
+            log.info('Attaching repeated request to in-flight automation', { key, id });
+            return id;
+        }
+        if (job?.state === 'failed' && await this.retryAutomation(id)) {
+            log.info('Repeated request retries failed automation', { key, id });
+            return id;
+        }
+        if (result && !result.error) {
+            log.info('Repeated request returns existing result', { key, id });
+            // The job record may have been pruned; keep the result reachable by ID
+            if (!job) this.completedResults.set(id, result);
+            return id;
+        }
+        return startNew();
+    }
+
+    // Validate a CSV/JSON batch of listings and queue them all in the bulk lane
+    async importBatch(input: string | unknown[], format: BatchImportFormat): Promise<BatchImportResult> {
+        await this.settingsLoaded;
+        const { rows, errors } = parseBatchRows(input, format, this.automationSettings.pricing);
+        if (errors.length > 0) {
+            log.info('Rejected batch import', { rows: rows.length, invalidRows: errors.length });
+            return { accepted: 0, errors };
+        }
+
+        // Saved before anything is queued, so a crash partway through still leaves a report
+        const batch: AutomationBatch = {
+            id: uuidv4(),
+            createdAt: new Date().toISOString(),
+            rows: rows.map((params, index) => ({ row: index + 1, automationId: uuidv4(), params }))
+        };
+        await saveBatch(this.batchesPath, batch);
+
+        let replayed = false;
+        for (const batchRow of batch.rows) {
+            const automationId = await this.submitAutomation({
+                type: 'createListing',
+                priority: 'bulk',
+                params: batchRow.params
+            }, batchRow.automationId);
+            // A repeated SKU attaches to the automation that already has it
+            if (automationId !== batchRow.automationId) {
+                batchRow.automationId = automationId;
+                replayed = true;
+            }
+        }
+
+        if (replayed) {
+            await saveBatch(this.batchesPath, batch);
+        }
+        log.info('Queued batch import', { batchId: batch.id, rows: batch.rows.length });
+
+        return { batchId: batch.id, accepted: batch.rows.length, errors: [] };
+    }
+
+    // Per-row state, FNSKU or error of a batch
+    async getBatchReport(batchId: string): Promise<BatchReportRow[] | null> {
+        const batch = await loadBatch(this.batchesPath, batchId);
+        if (!batch) return null;
+
+        return batch.rows.map(({ row, automationId, params }) => {
+            const job = this.jobStore.get(automationId);
+            return {
+                row,
+                automationId,
+                sku: params.sku ?? '',
+                asin: params.asin ?? '',
+                state: job?.state ?? 'failed',
+                fnsku: job?.result?.fnsku,
+                error: job ? job.result?.error : 'Job record not available (never queued or pruned)'
+            };
+        });
+    }
+
+    async getBatchReportCsv(batchId: string): Promise<string | null> {
+        const report = await this.getBatchReport(batchId);
+        return report ? batchReportToCsv(report) : null;
+    }
+
+    // Get the persisted job with its live status if the automation is still running
+    getAutomationJob(id: string): AutomationJob | null {
+        const job = this.jobStore.get(id);
+        if (!job) return null;
+
+        const automation = this.runningAutomations.get(id);
+        return automation ? { ...job, status: automation.status } : job;
+    }
+
+    private async runJob(id: string, request: AutomationRequest): Promise<string> {
         // If we're re-authenticating, queue the request
         if (this.isReauthenticating) {
             this.pendingAutomations.push({
                 request,
                 startTime: Date.now(),
-                retryCount: 0
+                retryCount: 0,
+                originalId: id
             });
-            return 'pending-auth';
+            return id;
         }
 
-        const id = uuidv4();
-
         try {
-            const automation = await this.createAutomation(id, request);
-            this.runningAutomations.set(id, automation);
-            this.updateActiveAutomationCount();
-            
-            // Set up timeout
-            this.setupAutomationTimeout(automation);
-            
-            // Start the automation and handle re-auth if needed
-            try {
-                // Wait for the automation to complete and get the result
-                const result = await this.runAutomation(automation, request);
+            // Each pass is one attempt; failures loop back here while their retry policy allows
+            for (;;) {
+                await this.waitForTurn(id, request);
+
+                const job = this.jobStore.get(id);
+                await this.jobStore.update(id, {
+                    state: 'running',
+                    attempts: (job?.attempts ?? 0) + 1
+                });
+
+                const automation = await this.createAutomation(id, request);
+                this.runningAutomations.set(id, automation);
+                this.updateActiveAutomationCount();
                 
-                // Store the result
-                automation.result = result;
+                // Set up timeout
+                this.setupAutomationTimeout(automation);
                 
-                // Return the ID - the result will be available via getAutomationResult
-                return id;
-            } catch (error: any) {
-                // Check if it's a login issue
-                if (error.message.includes('Login required') || 
-                    automation.page.url().includes('signin')) {
-                    
-                    // Clean up the current automation
-                    await this.cleanupAutomation(automation.id);
-                    
-                    // Add to pending automations
-                    this.pendingAutomations.push({
-                        request,
-                        startTime: Date.now(),
-                        retryCount: 0
-                    });
+                // Wait for the automation to complete; the result is available via getAutomationResult
+                const result = await this.runAutomation(automation, request);
+                automation.result = result;
 
-                    // Handle login required - this will retry the automation after successful login
-                    await this.handleLoginRequired(automation.id);
-                } else {
-                    // For non-auth errors, update status and cleanup
-                    this.updateAutomationStatus(automation, {
-                        status: 'error',
-                        message: error.message
-                    });
-                    await this.cleanupAutomation(automation.id);
-                    throw error;
+                if (!result?.error || result.cancelled || !await this.applyRetryPolicy(id, request, result)) {
+                    return id;
                 }
             }
-
-            return id;
         } catch (error) {
             log.error('Failed to start automation:', error);
+            this.scheduler.release(id);
+            const errorClass = classifyError(error);
+            await this.recordJobResult(id, {
+                error: error instanceof Error ? error.message : 'Unknown error occurred',
+                errorClass,
+                ...(errorClass === 'cancelled' && { cancelled: true })
+            });
             throw error;
         }
     }
 
-    private async createAutomation(id: string, request: AutomationRequest): Promise<RunningAutomation> {
-        const browser = await this.launchBrowser({
-            firefoxUserPrefs: {
-                'dom.webdriver.enabled': false,
-                'privacy.trackingprotection.enabled': false,
-                'network.cookie.cookieBehavior': 0,
-                'intl.accept_languages': 'en-US, en',
-                'privacy.resistFingerprinting': false,
-                'browser.cache.disk.enable': false,
-                'browser.cache.memory.enable': true,
-                'browser.sessionhistory.max_entries': 0,
-                'dom.ipc.processCount': 1
+    /**
+     * Decide what happens after a failed attempt. Returns true once the retry delay has
+     * passed and the job should run again; escalates and returns false when the error
+     * class has no retries left.
+     */
+    private async applyRetryPolicy(id: string, request: AutomationRequest, result: AutomationResult): Promise<boolean> {
+        const errorClass = result.errorClass ?? 'unknown';
+        const policy = this.automationSettings.retryPolicies[errorClass];
+        const job = this.jobStore.get(id);
+        const retries = this.getRetryCount(id, errorClass);
+
+        if (retries >= policy.maxRetries) {
+            await this.escalate(id, request, errorClass, result.error ?? 'Unknown error occurred', policy.escalation);
+            return false;
+        }
+
+        const delay = getRetryDelay(policy, retries);
+        log.info('Retrying automation', { id, errorClass, retry: retries + 1, maxRetries: policy.maxRetries, delay });
+        this.completedResults.delete(id);
+        await this.jobStore.update(id, {
+            state: 'queued',
+            result: undefined,
+            retries: { ...job?.retries, [errorClass]: retries + 1 }
+        });
+        this.publishStatus({
+            id,
+            status: 'queued',
+            progress: 0,
+            errorClass,
+            message: `${result.error} - retrying in ${Math.ceil(delay / 1000)}s (${retries + 1}/${policy.maxRetries})`,
+            details: {
+                sku: request.params?.sku,
+                asin: request.params?.asin
             }
         });
 
-        const context = await this.createBrowserContext(browser);
-        const page = await context.newPage();
+        return new Promise<boolean>(resolve => {
+            const timer = setTimeout(() => {
+                this.retryWaits.delete(id);
+                resolve(true);
+            }, delay);
+            this.retryWaits.set(id, () => {
+                clearTimeout(timer);
+                this.retryWaits.delete(id);
+                resolve(false);
+            });
+        });
+    }
+
+    private getRetryCount(id: string, errorClass: AutomationErrorClass): number {
+        return this.jobStore.get(id)?.retries?.[errorClass] ?? 0;
+    }
+
+    // Whether a failed attempt ends the job: no retries left, and no re-authentication to wait for
+    private isFinalFailure(id: string, errorClass: AutomationErrorClass): boolean {
+        const policy = this.automationSettings.retryPolicies[errorClass];
+        return this.getRetryCount(id, errorClass) >= policy.maxRetries && policy.escalation !== 'reauthenticate';
+    }
+
+    private async escalate(id: string, request: AutomationRequest, errorClass: AutomationErrorClass, message: string, escalation: RetryEscalation) {
+        switch (escalation) {
+            case 'notify':
+                this.notifyFailure(errorClass, message, id);
+                break;
+            case 'reauthenticate':
+                // Re-run the job once the user has logged in again; until then it counts as queued
+                log.info('Escalating to re-authentication', { id, errorClass });
+                this.completedResults.delete(id);
+                await this.jobStore.update(id, { state: 'queued', result: undefined });
+                this.publishStatus({
+                    id,
+                    status: 'queued',
+                    progress: 0,
+                    errorClass,
+                    message: `${message} - waiting for re-authentication`,
+                    details: {
+                        sku: request.params?.sku,
+                        asin: request.params?.asin
+                    }
+                });
+                this.pendingAutomations.push({
+                    request,
+                    startTime: Date.now(),
+                    retryCount: 0,
+                    originalId: id
+                });
+                await this.handleLoginRequired(id).catch(error => {
+                    log.error('Re-authentication after failure did not complete:', error);
+                });
+                break;
+        }
+    }
+
+    // Desktop notification for failures that need a person to look at them
+    notifyFailure(errorClass: AutomationErrorClass, message: string, automationId?: string) {
+        log.error('Escalating failure', { automationId, errorClass, message });
+        emitAutomationEvent('automationEscalated', { automationId, errorClass, message });
+        if (Notification.isSupported()) {
+            new Notification({ title: `Automation failed (${errorClass})`, body: message }).show();
+        }
+    }
+
+    getRetryPolicy(errorClass: AutomationErrorClass): RetryPolicy {
+        return this.automationSettings.retryPolicies[errorClass];
+    }
+
+    private async createAutomation(id: string, request: AutomationRequest): Promise<RunningAutomation> {
+        const profile = this.getProfile(request.profile);
+        // Borrow a context from a warm pooled browser instead of cold-starting Firefox
+        const lease = await this.browserPool.acquire(profile);
+        const page = await lease.context.newPage().catch(async error => {
+            await lease.release();
+            throw error;
+        });
 
         return {
             id,
-            browser,
+            browser: lease.browser,
             page,
+            lease,
+            profile,
             status: {
                 id,
                 status: 'running',
                 progress: 0,
+                profile: profile.name,
                 details: {
                     sku: request.params?.sku,
                     asin: request.params?.asin
@@ -1150,8 +1818,9 @@ class AutomationManager {
             throw new Error(`Firefox executable not found at ${firefoxPath}. Please ensure the application is properly installed.`);
         }
 
+        // Only pooled automation browsers follow the headless setting; setup and re-login launch their own
         const browser = await firefox.launch({
-            headless: false,
+            headless: this.automationSettings.headless,
             executablePath: firefoxPath,
             firefoxUserPrefs: {
                 'browser.sessionstore.resume_from_crash': false,
@@ -1232,17 +1901,37 @@ class AutomationManager {
         return firefoxPath;
     }
 
-    private async createBrowserContext(browser: Browser): Promise<any> {
+    private async createBrowserContext(browser: Browser, profile: SellerProfile): Promise<BrowserContext> {
+        // Decrypted in memory only; Playwright takes the state as an object
+        const storageState = await loadStorageState(this.getStoragePath(profile));
         const context = await browser.newContext({
             viewport: { width: 1500, height: 900 },
             screen: { width: 1500, height: 900 },
             userAgent: 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10.15; rv:122.0) Gecko/20100101 Firefox/122.0',
+            // Seller Central picks the page language from this
+            locale: profile.locale,
             // Load stored state if available
-            storageState: path.join(this.profilesPath, 'storage.json')
+            storageState
         });
 
+        if (this.automationSettings.tracing.enabled) {
+            try {
+                await context.tracing.start({ screenshots: true, snapshots: true });
+                this.tracedContexts.add(context);
+            } catch (error) {
+                log.error('Failed to start tracing:', error);
+            }
+        }
+
         // Set up context event handlers
         context.on('page', async page => {
+            const diagnostics: PageDiagnostic[] = [];
+            this.pageDiagnostics.set(page, diagnostics);
+            const recordDiagnostic = (diagnostic: Omit<PageDiagnostic, 'timestamp'>) => {
+                diagnostics.push({ ...diagnostic, timestamp: new Date().toISOString() });
+                if (diagnostics.length > MAX_PAGE_DIAGNOSTICS) diagnostics.shift();
+            };
+
             page.on('console', msg => {
                 const text = msg.text();
                 // Filter out noisy messages
@@ -1258,10 +1947,12 @@ class AutomationManager {
                     !text.includes('Ignoring unsupported entryTypes') &&
                     !text.includes('re-reselect')) {
                     log.info('Browser console:', text);
+                    recordDiagnostic({ type: 'console', level: msg.type(), text });
                 }
             });
             
             page.on('pageerror', error => {
+                recordDiagnostic({ type: 'pageerror', text: error.stack ?? error.toString() });
                 // Only log actual errors, not warnings
                 if (!error.toString().toLowerCase().includes('warning')) {
                     log.error('Browser page error:', error);
@@ -1275,19 +1966,26 @@ class AutomationManager {
     private async runAutomation(automation: RunningAutomation, request: AutomationRequest): Promise<RunningAutomation['result']> {
         try {
             let result: RunningAutomation['result'];
+            await Promise.all([this.selectorsLoaded, this.settingsLoaded]);
             
             switch (request.type) {
                 case 'inventory':
-                    await this.handleInventory(automation);
-                    result = {}; // No specific result for inventory
+                    result = {
+                        inventory: await this.handleInventory(automation),
+                        currency: automation.profile.currency
+                    };
                     break;
                 case 'orders':
-                    await this.handleOrders(automation);
-                    result = {}; // No specific result for orders
+                    result = {
+                        orders: await this.handleOrders(automation, request.params),
+                        currency: automation.profile.currency
+                    };
                     break;
                 case 'createListing':
-                    const listingResult = await this.handleCreateListing(automation, request.params);
-                    result = { fnsku: listingResult.fnsku };
+                    result = await this.handleCreateListing(automation, request.params, request.dryRun);
+                    break;
+                case 'checkAsin':
+                    result = { research: await this.handleCheckAsin(automation, request.params) };
                     break;
                 default:
                     throw new Error('Unknown automation type');
@@ -1301,6 +1999,7 @@ class AutomationManager {
             // Store the result in both places
             automation.result = result;
             this.completedResults.set(automation.id, result);
+            await this.recordJobResult(automation.id, result);
             
             // Cleanup old results periodically
             this.cleanupCompletedResults();
@@ -1308,16 +2007,42 @@ class AutomationManager {
             return result;
 
         } catch (error) {
-            log.error('Automation failed', error);
+            const errorClass = classifyError(error);
+            const cancelled = errorClass === 'cancelled';
+            if (cancelled) {
+                log.info('Automation cancelled', { id: automation.id });
+            } else {
+                log.error(`Automation failed (${errorClass})`, error);
+            }
+            if (!cancelled) {
+                await this.captureFailureArtifacts(automation, request, error);
+            }
+
+            const errorResult: AutomationResult = {
+                error: error instanceof Error ? error.message : 'Unknown error occurred',
+                errorClass,
+                ...(cancelled && { cancelled }),
+                // A listing that failed after the offer was created still has its FNSKU
+                ...(automation.result?.fnsku && { fnsku: automation.result.fnsku })
+            };
+
+            // A failure the retry policy will run again isn't the job's result yet;
+            // runJob reports the retry instead
+            if (!cancelled && !this.isFinalFailure(automation.id, errorClass)) {
+                automation.result = undefined;
+                return errorResult;
+            }
+
             this.updateAutomationStatus(automation, {
-                status: 'error',
-                message: error instanceof Error ? error.message : 'Unknown error occurred'
+                status: cancelled ? 'cancelled' : 'error',
+                message: errorResult.error,
+                errorClass
             });
-            
-            const errorResult = { error: error instanceof Error ? error.message : 'Unknown error occurred' };
+
             // Store error result in both places
             automation.result = errorResult;
             this.completedResults.set(automation.id, errorResult);
+            await this.recordJobResult(automation.id, errorResult);
             
             // Cleanup old results periodically
             this.cleanupCompletedResults();
@@ -1329,12 +2054,304 @@ class AutomationManager {
         }
     }
 
-    private async handleInventory(automation: RunningAutomation) {
-        // TODO: Implement inventory automation
+    private async captureFailureArtifacts(automation: RunningAutomation, request: AutomationRequest, error: unknown) {
+        try {
+            const bundle = await saveArtifactBundle(this.artifactsPath, automation.page, {
+                automationId: automation.id,
+                capturedAt: new Date().toISOString(),
+                error: error instanceof Error ? error.stack ?? error.message : String(error),
+                request,
+                diagnostics: this.pageDiagnostics.get(automation.page) ?? []
+            });
+            log.info('Saved failure artifacts', { id: automation.id, url: bundle.url, files: bundle.files });
+        } catch (artifactError) {
+            log.error('Failed to save failure artifacts:', artifactError);
+        }
+    }
+
+    async getArtifacts(id: string): Promise<ArtifactBundleExport | null> {
+        return exportArtifactBundle(this.artifactsPath, id);
+    }
+
+    // Write the context's trace to traces/<id>.zip before the context is closed
+    private async saveTrace(id: string, context: BrowserContext) {
+        if (!this.tracedContexts.has(context)) return;
+        this.tracedContexts.delete(context);
+
+        const traceFile = getTraceFile(this.tracesPath, id);
+        try {
+            await context.tracing.stop(traceFile ? { path: traceFile } : undefined);
+            if (!traceFile) return;
+            log.info('Saved trace', { id, traceFile });
+            await pruneTraces(this.tracesPath, this.automationSettings.tracing.maxTraces);
+        } catch (error) {
+            log.error('Failed to save trace:', error);
+        }
     }
 
-    private async handleOrders(automation: RunningAutomation) {
-        // TODO: Implement orders automation
+    async listTraces(): Promise<TraceInfo[]> {
+        const traces = await listTraceFiles(this.tracesPath);
+        return traces.map(trace => ({
+            ...trace,
+            request: this.jobStore.get(trace.automationId)?.request
+        }));
+    }
+
+    // Path of a recorded trace, or null if there is none for this automation
+    getTracePath(id: string): string | null {
+        const traceFile = getTraceFile(this.tracesPath, id);
+        return traceFile && existsSync(traceFile) ? traceFile : null;
+    }
+
+    // Request cancellation of a running automation, or drop it if it is still waiting on re-authentication
+    async cancelAutomation(id: string): Promise<boolean> {
+        // Still waiting for a slot: drop it from the queue
+        const queuedStatus = this.queuedAutomations.get(id);
+        if (queuedStatus && this.scheduler.remove(id, new AutomationCancelledError())) {
+            log.info('Cancelling queued automation', { id });
+            this.publishStatus({
+                ...queuedStatus,
+                status: 'cancelled',
+                queuePosition: undefined,
+                message: 'Automation cancelled by user'
+            });
+            return true;
+        }
+
+        const automation = this.runningAutomations.get(id);
+        if (automation) {
+            log.info('Cancelling automation', { id });
+            automation.cancelRequested = true;
+            automation.pausedByUser = false;
+            this.updateAutomationStatus(automation, {
+                message: 'Cancelling at the next step...'
+            });
+            return true;
+        }
+
+        const cancelRetry = this.retryWaits.get(id);
+        if (cancelRetry) {
+            log.info('Cancelling automation waiting to retry', { id });
+            cancelRetry();
+            const result: AutomationResult = { error: 'Automation cancelled by user', errorClass: 'cancelled', cancelled: true };
+            this.completedResults.set(id, result);
+            await this.recordJobResult(id, result);
+            this.publishStatus({ id, status: 'cancelled', message: result.error });
+            return true;
+        }
+
+        const pendingIndex = this.pendingAutomations.findIndex(pending => pending.originalId === id);
+        if (pendingIndex !== -1) {
+            log.info('Cancelling automation waiting on re-authentication', { id });
+            this.pendingAutomations.splice(pendingIndex, 1);
+            const result: AutomationResult = { error: 'Automation cancelled by user', errorClass: 'cancelled', cancelled: true };
+            this.completedResults.set(id, result);
+            await this.recordJobResult(id, result);
+            return true;
+        }
+
+        return false;
+    }
+
+    // Run a failed job again under the same ID; createListing picks up from its failed step
+    async retryAutomation(id: string): Promise<boolean> {
+        const job = this.jobStore.get(id);
+        if (!job || job.state !== 'failed' || this.isAutomationLive(id)) {
+            return false;
+        }
+
+        log.info('Retrying automation', { id, failedStep: job.listingProgress?.failedStep });
+        this.completedResults.delete(id);
+        await this.jobStore.update(id, { state: 'queued', result: undefined, retries: undefined });
+        this.runJob(id, job.request).catch(error => {
+            log.error(`Retried automation ${id} failed:`, error);
+        });
+        return true;
+    }
+
+    async pauseAutomation(id: string): Promise<boolean> {
+        const automation = this.runningAutomations.get(id);
+        if (!automation || automation.cancelRequested) return false;
+
+        log.info('Pausing automation', { id });
+        automation.pausedByUser = true;
+        this.updateAutomationStatus(automation, {
+            status: 'paused',
+            message: 'Paused by user'
+        });
+        return true;
+    }
+
+    async resumeAutomation(id: string): Promise<boolean> {
+        const automation = this.runningAutomations.get(id);
+        if (!automation?.pausedByUser) return false;
+
+        log.info('Resuming automation', { id });
+        automation.pausedByUser = false;
+        this.updateAutomationStatus(automation, {
+            status: 'running',
+            message: 'Resumed'
+        });
+        return true;
+    }
+
+    // Step boundary: throws if the automation was cancelled and waits while it is paused
+    private async checkpoint(automation: RunningAutomation) {
+        while (automation.pausedByUser && !automation.cancelRequested) {
+            await new Promise(resolve => setTimeout(resolve, 500));
+        }
+        if (automation.cancelRequested) {
+            throw new AutomationCancelledError();
+        }
+    }
+
+    /**
+     * Fail the attempt with an AuthenticationError if the page landed on the sign-in screen.
+     * The authentication retry policy then signs in again and puts the job back in the queue.
+     */
+    private async ensureLoggedIn(automation: RunningAutomation) {
+        const { page } = automation;
+        const isLoginPage = page.url().includes('signin') || 
+                          await this.selectors.forLocale(automation.profile.locale).find(page, 'login.passwordInput') !== null;
+        
+        console.log('Is login page:', isLoginPage);
+        if (isLoginPage) {
+            throw new AuthenticationError('Login required: Seller Central redirected to the sign-in page');
+        }
+    }
+
+    // Collect every row of Manage All Inventory, following the pagination
+    private async handleInventory(automation: RunningAutomation): Promise<InventoryRow[]> {
+        const { page } = automation;
+
+        this.updateAutomationStatus(automation, {
+            message: 'Opening Manage Inventory...',
+            progress: 10
+        });
+
+        await gotoPage(page, `${this.getBaseUrl(automation.profile)}${INVENTORY_PATH}`);
+
+        await this.ensureLoggedIn(automation);
+
+        const cells = await this.collectTablePages(automation, INVENTORY_COLUMNS, 'inventory');
+        return toInventoryRows(cells, automation.profile.locale);
+    }
+
+    // Collect recent orders from Manage Orders for a date range (default: the last week)
+    private async handleOrders(automation: RunningAutomation, params?: AutomationRequest['params']): Promise<OrderRow[]> {
+        const { page } = automation;
+
+        const to = params?.toDate ? new Date(params.toDate) : new Date();
+        let from = params?.fromDate
+            ? new Date(params.fromDate)
+            : new Date(to.getTime() - DEFAULT_ORDER_RANGE_DAYS * 24 * 60 * 60 * 1000);
+        if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+            throw new Error(`Invalid order date range: ${params?.fromDate ?? ''} - ${params?.toDate ?? ''}`);
+        }
+
+        // Incremental runs only want orders newer than the newest one seen last time
+        const lastOrderDate = params?.incremental ? await this.loadLastOrderDate(automation.profile) : null;
+        if (lastOrderDate && lastOrderDate > from) {
+            from = lastOrderDate;
+        }
+
+        this.updateAutomationStatus(automation, {
+            message: `Opening Manage Orders (${from.toLocaleDateString()} - ${to.toLocaleDateString()})...`,
+            progress: 10
+        });
+
+        await gotoPage(page, `${this.getBaseUrl(automation.profile)}${ORDERS_PATH}?date-range=${from.getTime()}-${to.getTime()}`);
+
+        await this.ensureLoggedIn(automation);
+
+        const orders = toOrderRows(await this.collectTablePages(automation, ORDER_COLUMNS, 'order'), automation.profile.locale)
+            .filter(order => {
+                const orderTime = Date.parse(order.orderDate);
+                if (isNaN(orderTime)) return true;
+                const isNew = lastOrderDate ? orderTime > lastOrderDate.getTime() : orderTime >= from.getTime();
+                return isNew && orderTime <= to.getTime();
+            });
+
+        if (params?.incremental) {
+            const newest = Math.max(...orders.map(order => Date.parse(order.orderDate)).filter(time => !isNaN(time)));
+            if (Number.isFinite(newest)) {
+                await this.saveLastOrderDate(automation.profile, new Date(newest));
+            }
+        }
+
+        return orders;
+    }
+
+    // Each account has its own orders, so incremental runs track them per profile
+    private getOrdersStatePath(profile: SellerProfile): string {
+        return path.join(getProfileDir(this.profilesPath, profile), 'orders-state.json');
+    }
+
+    private async loadLastOrderDate(profile: SellerProfile): Promise<Date | null> {
+        try {
+            const state = JSON.parse(await fs.readFile(this.getOrdersStatePath(profile), 'utf-8'));
+            const lastOrderDate = new Date(state.lastOrderDate);
+            return isNaN(lastOrderDate.getTime()) ? null : lastOrderDate;
+        } catch {
+            return null;
+        }
+    }
+
+    private async saveLastOrderDate(profile: SellerProfile, lastOrderDate: Date) {
+        const statePath = this.getOrdersStatePath(profile);
+        await fs.mkdir(path.dirname(statePath), { recursive: true });
+        await fs.writeFile(statePath, JSON.stringify({ lastOrderDate: lastOrderDate.toISOString() }, null, 2));
+    }
+
+    // Read a report table page by page, following the Next button
+    private async collectTablePages(automation: RunningAutomation, columns: TableColumns, label: string): Promise<TableCells[]> {
+        const { page } = automation;
+        const selectors = this.selectors.forLocale(automation.profile.locale);
+        const rows: TableCells[] = [];
+
+        await (await selectors.locate(page, 'reports.table')).waitFor({ state: 'visible', timeout: 30000 });
+
+        for (let pageNumber = 1; pageNumber <= MAX_TABLE_PAGES; pageNumber++) {
+            await this.checkpoint(automation);
+
+            const pageRows = await page.evaluate(scrapeTable, columns);
+            rows.push(...pageRows);
+            log.info(`Scraped ${label} page`, { pageNumber, rows: pageRows.length });
+
+            this.updateAutomationStatus(automation, {
+                message: `Read ${rows.length} ${label} rows (page ${pageNumber})...`,
+                progress: Math.min(90, 10 + pageNumber * 5)
+            });
+
+            const nextButton = await selectors.find(page, 'reports.nextPage');
+            const hasNextPage = pageRows.length > 0 && nextButton !== null &&
+                await nextButton.isVisible().catch(() => false) &&
+                await nextButton.isEnabled().catch(() => false);
+            if (!hasNextPage) break;
+
+            const firstRowText = await page.locator('table tbody tr').first().textContent();
+            await nextButton.click();
+            // Wait for the table to show the next page
+            await page.waitForFunction(
+                previous => document.querySelector('table tbody tr')?.textContent !== previous,
+                firstRowText,
+                { timeout: 30000 }
+            );
+        }
+
+        return rows;
+    }
+
+    // Export the rows of an inventory or orders result as CSV
+    async getAutomationResultCsv(id: string): Promise<string | null> {
+        const result = await this.getAutomationResult(id);
+        if (result?.inventory) {
+            return toCsv(result.inventory, INVENTORY_CSV_COLUMNS);
+        }
+        if (result?.orders) {
+            return toCsv(result.orders, ORDER_CSV_COLUMNS);
+        }
+        return null;
     }
 
     // Utility function for printing with unix-print
@@ -1362,12 +2379,12 @@ class AutomationManager {
         }
     }
 
-    private async handleCreateListing(automation: RunningAutomation, params?: AutomationRequest['params']): Promise<{ fnsku: string }> {
+    private async handleCreateListing(automation: RunningAutomation, params?: AutomationRequest['params'], dryRun = false): Promise<AutomationResult> {
         console.log('\n=== Starting handleCreateListing ===');
         console.log('Automation:', automation.id);
         console.log('Params:', params);
 
-        if (!params?.asin || !params?.sku || !params?.price) {
+        if (!params?.asin || !params?.sku) {
             console.error('Missing required parameters:', {
                 asin: params?.asin,
                 sku: params?.sku,
@@ -1377,10 +2394,58 @@ class AutomationManager {
         }
 
         const { page } = automation;
+        const selectors = this.selectors.forLocale(automation.profile.locale);
+
+        // Steps completed by an earlier attempt of this job are skipped
+        let progress: ListingProgress = this.jobStore.get(automation.id)?.listingProgress ?? { completedSteps: [] };
+        // Filling the form only sticks once it is submitted, so start over unless the offer exists
+        if (!progress.completedSteps.includes('submit')) {
+            progress = { completedSteps: [] };
+        }
+        if (progress.completedSteps.length > 0) {
+            log.info('Resuming listing creation', { id: automation.id, completedSteps: progress.completedSteps, failedStep: progress.failedStep });
+        }
+
+        // A mistyped or missing price is rejected before anything is filled in; one matched
+        // to the market has to wait for the offer page
+        const rules = this.automationSettings.pricing;
+        const earlyPricing = progress.pricing ?? (params.price !== undefined || rules.missingPriceMode === 'required'
+            ? computeListingPricing(rules, params.price, params.condition)
+            : undefined);
+        let marketPrices = progress.marketPrices;
+
+        const saveProgress = () => this.jobStore.update(automation.id, {
+            listingProgress: { ...progress, completedSteps: [...progress.completedSteps] }
+        });
+        const runStep = async (step: ListingStep, action: () => Promise<void>) => {
+            if (progress.completedSteps.includes(step)) {
+                console.log(`Skipping completed step: ${step}`);
+                return;
+            }
+            await this.checkpoint(automation);
+            console.log(`\n--- Step: ${step} ---`);
+            // Groups the step's actions in the trace viewer; a no-op when tracing is off
+            const tracing = automation.page.context().tracing;
+            await tracing.group(`Step: ${step}`);
+            try {
+                await action();
+            } catch (error) {
+                progress.failedStep = step;
+                await saveProgress();
+                throw error;
+            } finally {
+                await tracing.groupEnd().catch(() => {});
+            }
+            progress.completedSteps.push(step);
+            progress.failedStep = undefined;
+            await saveProgress();
+        };
 
         try {
             this.updateAutomationStatus(automation, {
-                message: 'Navigating to listing creation page...',
+                message: progress.completedSteps.length > 0
+                    ? `Resuming listing creation at ${progress.failedStep ?? 'the next step'}...`
+                    : 'Navigating to listing creation page...',
                 progress: 20,
                 details: {
                     ...automation.status.details,
@@ -1388,514 +2453,485 @@ class AutomationManager {
                 }
             });
 
-            console.log('\nNavigating to listing page...');
-            // Navigate to the listing creation page
-            await page.goto(`https://sellercentral.amazon.com/abis/listing/syh/offer?asin=${params.asin}`, {
-                waitUntil: 'domcontentloaded',
-                timeout: 30000
+            await runStep('navigate', async () => {
+                console.log('\nNavigating to listing page...');
+                // Navigate to the listing creation page
+                await gotoPage(page, `${this.getBaseUrl(automation.profile)}/abis/listing/syh/offer?asin=${params.asin}`);
             });
+            // Resuming after the offer exists: go back to where the last attempt left off
+            if (progress.resumeUrl) {
+                console.log('Navigating to resume page:', progress.resumeUrl);
+                await gotoPage(page, progress.resumeUrl);
+            }
 
             console.log('Current URL:', page.url());
 
             // Check if we're on a login page immediately
-            const isLoginPage = page.url().includes('signin') || 
-                              await page.locator('input[type="password"]').count() > 0;
-            
-            console.log('Is login page:', isLoginPage);
-            
-            if (isLoginPage) {
-                console.log('\nDetected login page, starting re-authentication...');
-                // Handle login and wait for it to complete, passing this automation's ID
-                await this.handleLoginRequired(automation.id);
-                
-                // The automation will be retried by retryPendingAutomations
-                // We need to wait for the result of the retried automation
-                const retriedResult = await new Promise<{ fnsku: string }>((resolve, reject) => {
-                    const maxWaitTime = 300000; // 5 minutes
-                    const startTime = Date.now();
-                    
-                    const checkResult = async () => {
-                        // Check if we've exceeded wait time
-                        if (Date.now() - startTime > maxWaitTime) {
-                            reject(new Error('Timed out waiting for automation result'));
-                            return;
-                        }
+            await this.ensureLoggedIn(automation);
 
-                        // Check completed results for any matching FNSKU
-                        const result = this.completedResults.get(automation.id);
-                        if (result && 'fnsku' in result && result.fnsku) {
-                            resolve({ fnsku: result.fnsku });
-                            return;
-                        } else if (result && 'error' in result) {
-                            reject(new Error(result.error || 'Unknown error occurred'));
-                            return;
-                        }
+            await runStep('marketPrices', async () => {
+                if (!needsMarketPrices(rules, params.price)) return;
+                this.updateAutomationStatus(automation, {
+                    message: 'Reading competing offers...',
+                    progress: 30
+                });
+                marketPrices = await captureMarketPrices(page, selectors, automation.profile);
+                progress.marketPrices = marketPrices;
+                log.info('Captured market prices', { id: automation.id, ...marketPrices });
+            });
 
-                        // Check again in 1 second if no result found
-                        setTimeout(checkResult, 1000);
-                    };
+            const pricing = earlyPricing ?? computeListingPricing(rules, params.price, params.condition, marketPrices);
+            progress.pricing = pricing;
+            log.info('Computed listing prices', { id: automation.id, ...pricing });
+            const recorded = { pricing, ...(marketPrices && { marketPrices }) };
 
-                    // Start checking
-                    checkResult();
+            await runStep('fillOffer', async () => {
+                this.updateAutomationStatus(automation, {
+                    message: 'Filling listing details...',
+                    progress: 40
                 });
 
-                return retriedResult;
-            }
+                try {
+                    await (await selectors.locate(page, 'listing.allAttributesRadio')).click();
+                    // Small wait to ensure the UI updates
+                    await page.waitForTimeout(100);
+                } catch (error) {
+                    log.error('Warning: Failed to click All attributes radio button:', error);
+                    // Continue anyway as this might not be critical
+                }
 
-            this.updateAutomationStatus(automation, {
-                message: 'Filling listing details...',
-                progress: 50
-            });
+                // Fill form fields
+                await (await selectors.locate(page, 'listing.sellerSku')).fill(params.sku!);
+                await (await selectors.locate(page, 'listing.yourPrice')).fill(pricing.price.toString());
 
-            try {
-                // Try multiple selectors in case one fails
-                await page.locator('kat-radiobutton[name="attribute_filter_radio_buttons-all"]').click(),
-                // Small wait to ensure the UI updates
-                await page.waitForTimeout(100);
-            } catch (error) {
-                log.error('Warning: Failed to click All attributes radio button:', error);
-                // Continue anyway as this might not be critical
-            }
+                // Check if List Price field exists before filling it; the rules may leave it empty
+                const listPriceField = await selectors.find(page, 'listing.listPrice');
+                if (pricing.listPrice !== undefined && listPriceField && await listPriceField.isVisible()) {
+                    await listPriceField.fill(pricing.listPrice.toString());
+                }
 
-            // Fill form fields
-            await page.getByRole('textbox', { name: 'Seller SKU' }).fill(params.sku);
-            await page.getByRole('textbox', { name: 'Your Price' }).fill(params.price.toString());
+                await page.evaluate(() => {
+                    window.scrollBy(0, 800);
+                });
+                await new Promise(resolve => setTimeout(resolve, 100));
+                // Set condition if provided    
+                if (params.condition) {
+                    // First click the condition dropdown
+                    await (await selectors.locate(page, 'listing.conditionDropdown')).click();
+                    await new Promise(resolve => setTimeout(resolve, 100));
+
+                    // Then find and click the condition option
+                    const option = await selectors.locate(page, 'listing.conditionOption', { vars: { condition: params.condition } });
+                    await option.click();
+                    await new Promise(resolve => setTimeout(resolve, 100));
+                }
 
-            // Check if List Price field exists before filling it
-            const listPriceField = page.getByRole('textbox', { name: 'List Price' });
-            if (await listPriceField.isVisible()) {
-                await listPriceField.fill((params.price * 1.5).toString());
-            }
+                // Fill condition notes if provided
+                console.log('Condition Notes:', params.conditionNotes);
+                if (params.conditionNotes) {
+                    console.log('Filling condition notes');
+                    const conditionNote = await selectors.locate(page, 'listing.conditionNote');
+                    await conditionNote.click();
+                    await conditionNote.fill(params.conditionNotes);
+                }
 
-            await page.evaluate(() => {
-                window.scrollBy(0, 800);
+                // Select FBA fulfillment
+                await (await selectors.locate(page, 'listing.fulfillmentFba')).click();
             });
-            await new Promise(resolve => setTimeout(resolve, 100));
-            // Set condition if provided    
-            if (params.condition) {
-                // First click the condition dropdown (specifically the second one)
-                const dropdowns = page.locator('div[part="dropdown-header"]');
-                const secondDropdown = dropdowns.nth(1);  // Get the second dropdown
-                await secondDropdown.click();
-                await new Promise(resolve => setTimeout(resolve, 100));
 
-                // Then find and click the condition option
-                const option = page.locator(`[role="option"]:has-text("${params.condition}")`);
-                await option.click();
-                await new Promise(resolve => setTimeout(resolve, 100));
+            if (dryRun) {
+                const preview = await this.captureListingPreview(automation, params, pricing);
+                automation.result = { preview, ...recorded };
+                return { preview, ...recorded };
             }
 
-            // Fill condition notes if provided
-            console.log('Condition Notes:', params.conditionNotes);
-            if (params.conditionNotes) {
-                console.log('Filling condition notes');
-                await page.getByRole('textbox', { name: 'Condition Note' }).click();
-                await page.getByRole('textbox', { name: 'Condition Note' }).fill(params.conditionNotes);
-            }
+            await runStep('submit', async () => {
+                this.updateAutomationStatus(automation, {
+                    message: 'Submitting listing...',
+                    progress: 55
+                });
 
-            // Select FBA fulfillment
-            await page.locator('#offerFulfillment-AFN > .kat-radiobutton-icon').click();
+                // Submit the listing
+                await (await selectors.locate(page, 'listing.saveAndFinish')).click();
 
-            this.updateAutomationStatus(automation, {
-                message: 'Submitting listing...',
-                progress: 75
+                // Either the offer is created or Seller Central explains why it was rejected
+                const { key, locator } = await selectors.locateAny(page, ['fba.convertAndSend', 'listing.submitError']);
+                if (key === 'listing.submitError') {
+                    throw listingRejectionError((await locator.innerText()).trim() || 'Seller Central rejected the listing');
+                }
+                await locator.waitFor({ state: 'visible' });
+                // The offer now exists; later retries start from the Convert and Send page
+                progress.resumeUrl = page.url();
             });
 
-            // Submit the listing
-            await page.getByRole('button', { name: 'Save and finish' }).click();
+            await runStep('convertToFba', async () => {
+                this.updateAutomationStatus(automation, {
+                    message: 'Converting to Fulfilled by Amazon...',
+                    progress: 65
+                });
 
-            
-            await page.getByTestId('button-label-for-SC_FBA_LFBA_1_PAGE_LIST_AS_FBA_BUTTON_CONVERTANDSEND').waitFor({ state: 'visible' });
-            
+                const convertAndSend = await selectors.locate(page, 'fba.convertAndSend');
+                await convertAndSend.waitFor({ state: 'visible' });
 
-            // Add delay and check for the popup before clicking Convert and Send
-            console.log('Checking for popup before Convert and Send...');
-            await page.waitForTimeout(200); // Wait 1 second
-            
-            // Check if popup button exists
-            const popupExists = await page.getByTestId('dgq-button-link').isVisible().catch(() => false);
-            if (popupExists) {
-                console.log('Popup detected, handling popup...');
-                await page.getByTestId('dgq-button-link').click();
-                await page.getByTestId('dgq-button-link').locator('a').click();
+                // Add delay and check for the popup before clicking Convert and Send
+                console.log('Checking for popup before Convert and Send...');
+                await page.waitForTimeout(200);
                 
-                // Handle the options in the popup
-                await page.locator('kat-radiobutton:nth-child(2) > .kat-radiobutton-icon').first().click();
-                await page.locator('kat-radiobutton:nth-child(2) > .kat-radiobutton-icon').nth(1).click();
-                await page.getByRole('button', { name: 'Submit' }).click();
-                await page.getByTestId('button-label-for-SC_FBA_LFBA_1_PAGE_LIST_AS_FBA_BUTTON_CONVERTANDSEND').click();
-            } else {
-                console.log('No popup found, proceeding with Convert and Send...');
-                await page.getByTestId('button-label-for-SC_FBA_LFBA_1_PAGE_LIST_AS_FBA_BUTTON_CONVERTANDSEND').click();
-            }
+                // Check if popup button exists
+                const popupLink = await selectors.find(page, 'fba.dangerousGoodsLink');
+                const popupExists = popupLink !== null && await popupLink.isVisible().catch(() => false);
+                if (popupLink && popupExists) {
+                    console.log('Popup detected, handling popup...');
+                    await popupLink.click();
+                    await (await selectors.locate(page, 'fba.dangerousGoodsAnchor')).click();
+                    
+                    // Handle the options in the popup
+                    await (await selectors.locate(page, 'fba.dangerousGoodsFirstAnswer')).click();
+                    await (await selectors.locate(page, 'fba.dangerousGoodsSecondAnswer')).click();
+                    await (await selectors.locate(page, 'fba.dangerousGoodsSubmit')).click();
+                    await (await selectors.locate(page, 'fba.convertAndSend')).click();
+                } else {
+                    console.log('No popup found, proceeding with Convert and Send...');
+                    await convertAndSend.click();
+                }
+            });
 
-            console.log('Getting FNSKU...');
-            const fnskuElement = page.getByTestId('fnsku');
-            const fnsku = await fnskuElement.textContent();
-            const fnskuValue = fnsku?.match(/X0[A-Z0-9]{8}/)?.[0];
-            console.log('Listing created successfully FNSKU:', fnskuValue);
-            if (!fnskuValue) {
-                throw new Error('Could not extract valid FNSKU from page');
-            }
-            
+            await runStep('captureFnsku', async () => {
+                console.log('Getting FNSKU...');
+                const fnskuElement = await selectors.locate(page, 'fba.fnsku');
+                const fnsku = await fnskuElement.textContent();
+                const fnskuValue = fnsku?.match(/X0[A-Z0-9]{8}/)?.[0];
+                console.log('Listing created successfully FNSKU:', fnskuValue);
+                if (!fnskuValue) {
+                    throw new Error('Could not extract valid FNSKU from page');
+                }
+                progress.fnsku = fnskuValue;
+                // Prep and dimensions are finished from the page that shows the FNSKU
+                progress.resumeUrl = page.url();
+            });
 
             // Store the result immediately with the non-null FNSKU
-            const result = { fnsku: fnskuValue };
+            const result = { fnsku: progress.fnsku!, ...recorded };
             automation.result = result;
+            this.updateAutomationStatus(automation, {
+                message: `Listing created (FNSKU ${result.fnsku}), setting prep details...`,
+                progress: 75
+            });
 
-            // Handle prep steps
-            console.log('Handling prep steps...');
-            try {
-                // Use a flag to ensure only one action is taken
-                let actionTaken = false;
-                
-                // Use Promise.race to try different selectors
-                await Promise.race([
-                    // Option 1: "sku-action-info-prep-missing-link" on page
-                    page.getByTestId('sku-action-info-prep-missing-link').locator('a')
-                      .waitFor({ state: 'visible', timeout: 10000 })
-                      .then(async () => {
-                        if (actionTaken) return;
-                        actionTaken = true;
-                        console.log('Found and clicking: sku-action-info-prep-missing-link');
-                        await page.getByTestId('sku-action-info-prep-missing-link').locator('a').click();
-                        await page.waitForTimeout(500);
-                      }),
-                      
-                    // Option 2: "Prep information updated" link on page2
-                    page.getByRole('link', { name: 'Prep information updated' })
-                      .waitFor({ state: 'visible', timeout: 10000 })
-                      .then(async () => {
-                        if (actionTaken) return;
-                        actionTaken = true;
-                        console.log('Found and clicking: Prep information updated link');
-                        await page.getByRole('link', { name: 'Prep information updated' }).click();
-                        await page.waitForTimeout(500);
-                      }),
-                      
-                    // Option 3: "prep-modal-link" on page2
-                    page.getByTestId('prep-modal-link').locator('a')
-                      .waitFor({ state: 'visible', timeout: 10000 })
-                      .then(async () => {
-                        if (actionTaken) return;
-                        actionTaken = true;
-                        console.log('Found and clicking: prep-modal-link');
-                        await page.getByTestId('prep-modal-link').locator('a').click();
-                        await page.waitForTimeout(500);
-                      })
-                ]);
-                
-                // If no action was taken, continue with the direct approach
-                if (!actionTaken) {
-                    await page.getByTestId('sku-action-info-prep-missing-link').locator('a').click();
+            await runStep('prep', async () => {
+                console.log('Handling prep steps...');
+                try {
+                    // The prep link differs between page variants; the registry lists them in order
+                    const prepLink = await selectors.locate(page, 'prep.openPrepLink', { timeout: 10000 });
+                    console.log('Found and clicking prep link');
+                    await prepLink.click();
+                    await page.waitForTimeout(500);
+                } catch (error) {
+                    console.error('Error handling prep steps:', error);
+                    // Give the page one more, longer chance before failing
+                    await (await selectors.locate(page, 'prep.openPrepLink')).click();
                 }
-            } catch (error) {
-                console.error('Error handling prep steps:', error);
-                // Fallback to the direct approach if the Promise.race approach fails
-                await page.getByTestId('sku-action-info-prep-missing-link').locator('a').click();
-            }
 
-            await page.waitForTimeout(200);
+                await page.waitForTimeout(200);
 
-            // Check for prep dropdown using data-testid
-            console.log('Checking for prep dropdown...');
-            const prepDropdown = page.getByTestId('prep-guidance-prep-category-dropdown');
-            const isDropdownVisible = await prepDropdown.isVisible();
-            
-            if (isDropdownVisible) {
-                console.log('Found prep dropdown, clicking it...');
-                await prepDropdown.click();
-                await page.waitForTimeout(500);
+                // Check for prep dropdown using data-testid
+                console.log('Checking for prep dropdown...');
+                const prepDropdown = await selectors.find(page, 'prep.categoryDropdown');
+                const isDropdownVisible = prepDropdown !== null && await prepDropdown.isVisible();
                 
-                // Click "No Prep Needed" option using the value
-                const noPrepOption = page.locator('kat-option[value="NONE"]');
-                await noPrepOption.click();
-                await page.waitForTimeout(300);
-            } else {
-                console.log('No prep dropdown found, continuing with save...');
-            }
+                if (prepDropdown && isDropdownVisible) {
+                    console.log('Found prep dropdown, clicking it...');
+                    await prepDropdown.click();
+                    await page.waitForTimeout(500);
+                    
+                    // Click "No Prep Needed" option using the value
+                    const noPrepOption = await selectors.locate(page, 'prep.noPrepOption');
+                    await noPrepOption.click();
+                    await page.waitForTimeout(300);
+                } else {
+                    console.log('No prep dropdown found, continuing with save...');
+                }
 
-            // Wait for first Save button to be visible and clickable
-            await page.getByRole('button', { name: 'Save' }).waitFor({ state: 'visible' });
-            await page.getByRole('button', { name: 'Save' }).click();
-            console.log('First Save button clicked');
-            
-            // Wait a moment for UI to update after first save
-            await page.waitForTimeout(500);
-            
-            // Check if second Save button exists and is visible before clicking
-            const secondSaveButton = await page.getByRole('button', { name: 'Save' });
-            const hasSecondSave = await secondSaveButton.count() > 0;
-            console.log('Second Save button: ', hasSecondSave);
-            if (hasSecondSave) {
-                await secondSaveButton.waitFor({ state: 'visible' });
-                await secondSaveButton.click();
-                console.log('Second Save button clicked');
-            }
-            await page.waitForTimeout(1200);
-
-            // Check for missing ASIN data link
-            console.log('Checking for missing ASIN data link...');
-            const missingDataLink = page.getByRole('link', { name: 'Data is missing for ASIN' });
-            const hasLink = await missingDataLink.count() > 0;
-            if (hasLink) {
-                console.log('Found missing ASIN data link, clicking it...');
-                await missingDataLink.click();
-                await page.waitForTimeout(1000);
-
-                // Create popup window for dimensions input
-                const popup = new BrowserWindow({
-                    width: 500,
-                    height: 480,
-                    frame: true,  // Enable window frame
-                    resizable: false,
-                    alwaysOnTop: true,
-                    skipTaskbar: false,
-                    webPreferences: {
-                        nodeIntegration: true,
-                        contextIsolation: false,
-                        webSecurity: false
-                    },
-                    backgroundColor: '#ffffff',
-                    show: false,
-                    title: 'Enter Product Dimensions'  // Add window title
-                });
+                // Wait for first Save button to be visible and clickable
+                const firstSaveButton = await selectors.locate(page, 'prep.save');
+                await firstSaveButton.waitFor({ state: 'visible' });
+                await firstSaveButton.click();
+                console.log('First Save button clicked');
+                
+                // Wait a moment for UI to update after first save
+                await page.waitForTimeout(500);
+                
+                // Check if second Save button exists and is visible before clicking
+                const secondSaveButton = await selectors.find(page, 'prep.save');
+                const hasSecondSave = secondSaveButton !== null;
+                console.log('Second Save button: ', hasSecondSave);
+                if (secondSaveButton) {
+                    await secondSaveButton.waitFor({ state: 'visible' });
+                    await secondSaveButton.click();
+                    console.log('Second Save button clicked');
+                }
+                await page.waitForTimeout(1200);
+            });
 
-                // Position window in center of screen
-                popup.center();
-
-                // Create the HTML content for dimensions input
-                const dimensionsHtmlContent = `
-                    <!DOCTYPE html>
-                    <html>
-                    <head>
-                        <style>
-                            body {
-                                margin: 0;
-                                padding: 2rem;
-                                font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, 'Open Sans', 'Helvetica Neue', sans-serif;
-                                background-color: white;
-                                overflow: hidden;
-                            }
+            await runStep('dimensions', async () => {
+                console.log('Checking for missing ASIN data link...');
+                const missingDataLink = await selectors.find(page, 'dimensions.missingDataLink');
+                if (missingDataLink) {
+                    console.log('Found missing ASIN data link, clicking it...');
+                    await missingDataLink.click();
+                    await page.waitForTimeout(1000);
+
+                    // Create popup window for dimensions input
+                    const popup = new BrowserWindow({
+                        width: 500,
+                        height: 480,
+                        frame: true,  // Enable window frame
+                        resizable: false,
+                        alwaysOnTop: true,
+                        skipTaskbar: false,
+                        webPreferences: {
+                            nodeIntegration: true,
+                            contextIsolation: false,
+                            webSecurity: false
+                        },
+                        backgroundColor: '#ffffff',
+                        show: false,
+                        title: 'Enter Product Dimensions'  // Add window title
+                    });
 
-                            .content {
-                                text-align: center;
-                            }
+                    // Position window in center of screen
+                    popup.center();
+
+                    // Create the HTML content for dimensions input
+                    const dimensionsHtmlContent = `
+                        <!DOCTYPE html>
+                        <html>
+                        <head>
+                            <style>
+                                body {
+                                    margin: 0;
+                                    padding: 2rem;
+                                    font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, 'Open Sans', 'Helvetica Neue', sans-serif;
+                                    background-color: white;
+                                    overflow: hidden;
+                                }
 
-                            .sku-info {
-                                background-color: #f5f5f5;
-                                border-radius: 8px;
-                                padding: 1rem;
-                                margin-bottom: 1.5rem;
-                                text-align: left;
-                            }
+                                .content {
+                                    text-align: center;
+                                }
 
-                            .sku-info h2 {
-                                margin: 0;
-                                font-size: 14px;
-                                color: #666;
-                            }
+                                .sku-info {
+                                    background-color: #f5f5f5;
+                                    border-radius: 8px;
+                                    padding: 1rem;
+                                    margin-bottom: 1.5rem;
+                                    text-align: left;
+                                }
 
-                            .sku-info p {
-                                margin: 0.5rem 0 0 0;
-                                font-size: 16px;
-                                color: #333;
-                                font-weight: 500;
-                            }
+                                .sku-info h2 {
+                                    margin: 0;
+                                    font-size: 14px;
+                                    color: #666;
+                                }
 
-                            .dimensions-grid {
-                                display: grid;
-                                grid-template-columns: repeat(2, 1fr);
-                                gap: 1rem;
-                                margin-bottom: 1.5rem;
-                            }
+                                .sku-info p {
+                                    margin: 0.5rem 0 0 0;
+                                    font-size: 16px;
+                                    color: #333;
+                                    font-weight: 500;
+                                }
 
-                            .input-group {
-                                text-align: left;
-                            }
+                                .dimensions-grid {
+                                    display: grid;
+                                    grid-template-columns: repeat(2, 1fr);
+                                    gap: 1rem;
+                                    margin-bottom: 1.5rem;
+                                }
 
-                            .input-group label {
-                                display: block;
-                                margin-bottom: 0.5rem;
-                                font-size: 14px;
-                                color: #333;
-                                font-weight: 500;
-                            }
+                                .input-group {
+                                    text-align: left;
+                                }
 
-                            .input-group input {
-                                width: 100%;
-                                padding: 0.75rem;
-                                border: 1px solid #ddd;
-                                border-radius: 6px;
-                                font-size: 14px;
-                                box-sizing: border-box;
-                            }
+                                .input-group label {
+                                    display: block;
+                                    margin-bottom: 0.5rem;
+                                    font-size: 14px;
+                                    color: #333;
+                                    font-weight: 500;
+                                }
 
-                            .input-group input:focus {
-                                outline: none;
-                                border-color: #0495F6;
-                                box-shadow: 0 0 0 2px rgba(4, 149, 246, 0.1);
-                            }
+                                .input-group input {
+                                    width: 100%;
+                                    padding: 0.75rem;
+                                    border: 1px solid #ddd;
+                                    border-radius: 6px;
+                                    font-size: 14px;
+                                    box-sizing: border-box;
+                                }
 
-                            .buttons {
-                                display: flex;
-                                gap: 1rem;
-                                justify-content: flex-end;
-                                margin-top: 2rem;
-                            }
+                                .input-group input:focus {
+                                    outline: none;
+                                    border-color: #0495F6;
+                                    box-shadow: 0 0 0 2px rgba(4, 149, 246, 0.1);
+                                }
 
-                            .button {
-                                padding: 0.75rem 2rem;
-                                border-radius: 6px;
-                                border: none;
-                                font-size: 14px;
-                                font-weight: 500;
-                                cursor: pointer;
-                                transition: all 0.2s;
-                            }
+                                .buttons {
+                                    display: flex;
+                                    gap: 1rem;
+                                    justify-content: flex-end;
+                                    margin-top: 2rem;
+                                }
 
-                            .primary {
-                                background-color: #0495F6;
-                                color: white;
-                            }
+                                .button {
+                                    padding: 0.75rem 2rem;
+                                    border-radius: 6px;
+                                    border: none;
+                                    font-size: 14px;
+                                    font-weight: 500;
+                                    cursor: pointer;
+                                    transition: all 0.2s;
+                                }
 
-                            .primary:hover {
-                                background-color: #0378cc;
-                                transform: translateY(-1px);
-                            }
+                                .primary {
+                                    background-color: #0495F6;
+                                    color: white;
+                                }
 
-                            .unit {
-                                color: #666;
-                                font-size: 13px;
-                                margin-left: 4px;
-                            }
-                        </style>
-                    </head>
-                    <body>
-                        <div class="content">
-                            <div class="sku-info">
-                                <h2>Product Information</h2>
-                                <p>SKU: ${params?.sku || 'Unknown'}</p>
-                                <p>ASIN: ${params?.asin || 'Unknown'}</p>
-                            </div>
+                                .primary:hover {
+                                    background-color: #0378cc;
+                                    transform: translateY(-1px);
+                                }
 
-                            <div class="dimensions-grid">
-                                <div class="input-group">
-                                    <label>Length<span class="unit">(inches)</span></label>
-                                    <input type="number" id="length" step="0.1" min="0" required placeholder="0.0">
-                                </div>
-                                <div class="input-group">
-                                    <label>Width<span class="unit">(inches)</span></label>
-                                    <input type="number" id="width" step="0.1" min="0" required placeholder="0.0">
+                                .unit {
+                                    color: #666;
+                                    font-size: 13px;
+                                    margin-left: 4px;
+                                }
+                            </style>
+                        </head>
+                        <body>
+                            <div class="content">
+                                <div class="sku-info">
+                                    <h2>Product Information</h2>
+                                    <p>SKU: ${params?.sku || 'Unknown'}</p>
+                                    <p>ASIN: ${params?.asin || 'Unknown'}</p>
                                 </div>
-                                <div class="input-group">
-                                    <label>Height<span class="unit">(inches)</span></label>
-                                    <input type="number" id="height" step="0.1" min="0" required placeholder="0.0">
+
+                                <div class="dimensions-grid">
+                                    <div class="input-group">
+                                        <label>Length<span class="unit">(inches)</span></label>
+                                        <input type="number" id="length" step="0.1" min="0" required placeholder="0.0">
+                                    </div>
+                                    <div class="input-group">
+                                        <label>Width<span class="unit">(inches)</span></label>
+                                        <input type="number" id="width" step="0.1" min="0" required placeholder="0.0">
+                                    </div>
+                                    <div class="input-group">
+                                        <label>Height<span class="unit">(inches)</span></label>
+                                        <input type="number" id="height" step="0.1" min="0" required placeholder="0.0">
+                                    </div>
+                                    <div class="input-group">
+                                        <label>Weight<span class="unit">(lbs)</span></label>
+                                        <input type="number" id="weight" step="0.1" min="0" required placeholder="0.0">
+                                    </div>
                                 </div>
-                                <div class="input-group">
-                                    <label>Weight<span class="unit">(lbs)</span></label>
-                                    <input type="number" id="weight" step="0.1" min="0" required placeholder="0.0">
+
+                                <div class="buttons">
+                                    <button class="button primary" id="submit">Save Dimensions</button>
                                 </div>
                             </div>
 
-                            <div class="buttons">
-                                <button class="button primary" id="submit">Save Dimensions</button>
-                            </div>
-                        </div>
+                            <script>
+                                const electron = require('electron');
+                                const { ipcRenderer } = electron;
+
+                                document.getElementById('submit').addEventListener('click', () => {
+                                    const dimensions = {
+                                        length: document.getElementById('length').value,
+                                        width: document.getElementById('width').value,
+                                        height: document.getElementById('height').value,
+                                        weight: document.getElementById('weight').value
+                                    };
+                                    ipcRenderer.send('dimensions-response', dimensions);
+                                });
+
+                                // Handle enter key
+                                document.addEventListener('keypress', (e) => {
+                                    if (e.key === 'Enter') {
+                                        document.getElementById('submit').click();
+                                    }
+                                });
+
+                                // Focus first input on load
+                                window.onload = () => {
+                                    document.getElementById('length').focus();
+                                };
+                            </script>
+                        </body>
+                        </html>
+                    `;
 
-                        <script>
-                            const electron = require('electron');
-                            const { ipcRenderer } = electron;
+                    // Load the HTML content
+                    popup.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(dimensionsHtmlContent)}`);
 
-                            document.getElementById('submit').addEventListener('click', () => {
-                                const dimensions = {
-                                    length: document.getElementById('length').value,
-                                    width: document.getElementById('width').value,
-                                    height: document.getElementById('height').value,
-                                    weight: document.getElementById('weight').value
-                                };
-                                ipcRenderer.send('dimensions-response', dimensions);
-                            });
+                    // Show window once it's ready
+                    popup.once('ready-to-show', () => {
+                        popup.show();
+                    });
 
-                            // Handle enter key
-                            document.addEventListener('keypress', (e) => {
-                                if (e.key === 'Enter') {
-                                    document.getElementById('submit').click();
-                                }
-                            });
-
-                            // Focus first input on load
-                            window.onload = () => {
-                                document.getElementById('length').focus();
-                            };
-                        </script>
-                    </body>
-                    </html>
-                `;
-
-                // Load the HTML content
-                popup.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(dimensionsHtmlContent)}`);
-
-                // Show window once it's ready
-                popup.once('ready-to-show', () => {
-                    popup.show();
-                });
+                    // Handle window minimize
+                    ipcMain.once('minimize-dimensions', () => {
+                        popup.minimize();
+                    });
 
-                // Handle window minimize
-                ipcMain.once('minimize-dimensions', () => {
-                    popup.minimize();
-                });
+                    // Define the dimensions type
+                    type Dimensions = {
+                        length: string;
+                        width: string;
+                        height: string;
+                        weight: string;
+                    };
 
-                // Define the dimensions type
-                type Dimensions = {
-                    length: string;
-                    width: string;
-                    height: string;
-                    weight: string;
-                };
+                    // Wait for user input
+                    const dimensions = await new Promise<Dimensions>((resolve, reject) => {
+                        ipcMain.once('dimensions-response', (_event, response: Dimensions | 'cancel') => {
+                            popup.close();
+                            if (response === 'cancel') {
+                                reject(new Error('Dimensions input cancelled'));
+                            } else {
+                                resolve(response);
+                            }
+                        });
 
-                // Wait for user input
-                const dimensions = await new Promise<Dimensions>((resolve, reject) => {
-                    ipcMain.once('dimensions-response', (_event, response: Dimensions | 'cancel') => {
-                        popup.close();
-                        if (response === 'cancel') {
+                        popup.on('closed', () => {
                             reject(new Error('Dimensions input cancelled'));
-                        } else {
-                            resolve(response);
-                        }
-                    });
-
-                    popup.on('closed', () => {
-                        reject(new Error('Dimensions input cancelled'));
+                        });
                     });
-                });
 
-                // Fill in the dimensions
-                console.log('Filling in dimensions:', dimensions);
-                await page.locator('#katal-id-181').click();
-                await page.locator('#katal-id-181').fill(dimensions.length.toString());
-                await page.locator('#katal-id-182').click();
-                await page.locator('#katal-id-182').fill(dimensions.width.toString());
-                await page.locator('#katal-id-183').click();
-                await page.locator('#katal-id-183').fill(dimensions.height.toString());
-                await page.locator('#katal-id-184').click();
-                await page.locator('#katal-id-184').fill(dimensions.weight.toString());
+                    // Fill in the dimensions
+                    console.log('Filling in dimensions:', dimensions);
+                    for (const field of ['length', 'width', 'height', 'weight'] as const) {
+                        const input = await selectors.locate(page, `dimensions.${field}`);
+                        await input.click();
+                        await input.fill(dimensions[field].toString());
+                    }
                 
-                // Click the save dimensions button
-                console.log('Clicking Save button in dimensions dialog...');
-                await page.getByTestId('save-dimensions-button').click();
-                await page.waitForTimeout(1000);
-
-                // Click the additional save buttons twice
-                const saveButton = page.getByRole('button', { name: 'Save' });
-                await saveButton.waitFor({ state: 'visible' });
-                await saveButton.click();
-            } else {
-                console.log('No missing ASIN data link found, proceeding with cleanup...');
-            }
+                    // Click the save dimensions button
+                    console.log('Clicking Save button in dimensions dialog...');
+                    await (await selectors.locate(page, 'dimensions.save')).click();
+                    await page.waitForTimeout(1000);
+
+                    // Click the additional save buttons twice
+                    const saveButton = await selectors.locate(page, 'prep.save');
+                    await saveButton.waitFor({ state: 'visible' });
+                    await saveButton.click();
+                } else {
+                    console.log('No missing ASIN data link found, proceeding with cleanup...');
+                }
+            });
 
             // Start label generation and printing in the background
-       /*    this.handleLabelPrinting(automation, fnskuValue, params).catch(error => {
+       /*    this.handleLabelPrinting(automation, result.fnsku, params).catch(error => {
                 log.error('Error in background label printing:', error);
             });*/
             await this.cleanupAutomation(automation.id);
@@ -1905,17 +2941,126 @@ class AutomationManager {
 
         } catch (error) {
             console.error('Error in listing creation:', error);
-            if (!page.isClosed()) {
-               // await page.screenshot({ path: path.join(this.profilesPath, `error_${Date.now()}.png`) });
-            }
-            // Set the error in automation.result for tracking
-            automation.result = { error: error instanceof Error ? error.message : 'Unknown error occurred' };
+            // Screenshot, HTML and console output are saved by runAutomation's failure artifacts
+            // Set the error in automation.result for tracking, keeping the FNSKU if the offer was created
+            automation.result = {
+                error: error instanceof Error ? error.message : 'Unknown error occurred',
+                ...(progress.fnsku && { fnsku: progress.fnsku })
+            };
             throw error;
         }
     }
 
+    // Screen an ASIN from its offer page before buying stock: nothing is filled in or submitted
+    private async handleCheckAsin(automation: RunningAutomation, params?: AutomationRequest['params']): Promise<AsinResearch> {
+        if (!params?.asin) {
+            throw new Error('Missing ASIN for checkAsin');
+        }
+
+        const { page } = automation;
+        const selectors = this.selectors.forLocale(automation.profile.locale);
+        this.updateAutomationStatus(automation, {
+            message: `Opening the offer page for ${params.asin}...`,
+            progress: 20,
+            details: { ...automation.status.details, asin: params.asin }
+        });
+
+        await gotoPage(page, `${this.getBaseUrl(automation.profile)}/abis/listing/syh/offer?asin=${params.asin}`);
+
+        await this.ensureLoggedIn(automation);
+
+        this.updateAutomationStatus(automation, {
+            message: 'Reading the offer page...',
+            progress: 50
+        });
+
+        // A restricted ASIN may show only the restriction, without the offer form. Neither
+        // showing up means the page didn't load as expected, which must not pass for "allowed".
+        await selectors.locateAny(page, ['research.restriction', 'listing.sellerSku']);
+        const readTexts = async (key: string) => {
+            const elements = await selectors.find(page, key);
+            const texts = elements ? await elements.allTextContents() : [];
+            return [...new Set(texts.map(text => text.replace(/\s+/g, ' ').trim()).filter(Boolean))];
+        };
+        // The offer page only ever shows these notices; their absence proves nothing
+        const noticeShown = async (key: string): Promise<ResearchCheck> =>
+            await selectors.find(page, key) !== null ? true : 'unknown';
+
+        const restrictions = await readTexts('research.restriction');
+        const hasOfferForm = await selectors.find(page, 'listing.sellerSku') !== null;
+        const marketPrices = await captureMarketPrices(page, selectors, automation.profile).catch(error => {
+            if (!(error instanceof SelectorTimeoutError)) throw error;
+            log.info('No market prices on the offer page', { id: automation.id, asin: params.asin });
+            return undefined;
+        });
+        const research: AsinResearch = {
+            asin: params.asin,
+            canList: restrictions.length > 0 ? false : hasOfferForm ? true : 'unknown',
+            restrictions,
+            conditions: await readTexts('research.conditionOptions'),
+            hazmat: await noticeShown('research.hazmatNotice'),
+            dimensionsMissing: await noticeShown('research.missingDimensions'),
+            ...(marketPrices && { marketPrices }),
+            checkedAt: new Date().toISOString()
+        };
+
+        log.info('Checked ASIN', { id: automation.id, ...research });
+        return research;
+    }
+
+    // Dry run: record what the filled offer form would submit instead of saving it
+    private async captureListingPreview(
+        automation: RunningAutomation,
+        params: NonNullable<AutomationRequest['params']>,
+        pricing: ListingPricing
+    ): Promise<ListingPreview> {
+        const { page } = automation;
+        const selectors = this.selectors.forLocale(automation.profile.locale);
+        this.updateAutomationStatus(automation, {
+            message: 'Dry run: capturing preview instead of submitting...',
+            progress: 80
+        });
+
+        const readField = async (key: string) => {
+            const field = await selectors.find(page, key);
+            if (!field || !await field.isVisible().catch(() => false)) return undefined;
+            return await field.inputValue().catch(() => undefined) || undefined;
+        };
+        const conditionDropdown = await selectors.find(page, 'listing.conditionDropdown');
+        const selectedCondition = (await conditionDropdown?.textContent().catch(() => null))?.trim();
+
+        const values: ListingPreview['values'] = {
+            asin: params.asin!,
+            sku: await readField('listing.sellerSku') ?? params.sku!,
+            price: await readField('listing.yourPrice') ?? String(pricing.price),
+            listPrice: await readField('listing.listPrice'),
+            condition: selectedCondition || params.condition,
+            conditionNotes: await readField('listing.conditionNote'),
+            fulfillment: 'FBA'
+        };
+
+        const previewsPath = path.join(this.profilesPath, 'previews');
+        await fs.mkdir(previewsPath, { recursive: true });
+        const screenshotPath = path.join(previewsPath, `${automation.id}.png`);
+        await page.screenshot({ path: screenshotPath, fullPage: true });
+
+        log.info('Captured dry-run preview', { id: automation.id, values, screenshotPath });
+        return { screenshotPath, capturedAt: new Date().toISOString(), values };
+    }
+
     // New method to handle label printing in the background
     private async handleLabelPrinting(automation: RunningAutomation, fnsku: string, params: NonNullable<AutomationRequest['params']>) {
+        // Each account may print on its own printer and labels
+        const printSettings = this.getPrintSettings(automation.profile.name);
+        const printerName = this.getPrinterName(automation.profile.name);
+        const printJob = {
+            fnsku,
+            sku: params.sku!,
+            asin: params.asin!,
+            printer: printerName,
+            automationId: automation.id
+        };
+
         try {
             this.updateAutomationStatus(automation, {
                 message: 'Generating and printing label...',
@@ -1928,15 +3073,16 @@ class AutomationManager {
                 sku: params.sku!,
                 asin: params.asin!,
                 condition: params.condition,
-                labelSize: this.printSettings?.labelSize || '1 x 2.125', // Use configured size or default
-                customSize: this.printSettings?.customSize // Pass through custom size if set
+                labelSize: printSettings.labelSize || '1 x 2.125', // Use configured size or default
+                customSize: printSettings.customSize // Pass through custom size if set
             });
 
             log.info('Using PDF path:', labelPath);
+            emitAutomationEvent('printJob', { ...printJob, status: 'started' });
 
             // Get the media size based on current settings
-            const mediaSize = this.printSettings?.labelSize === 'CUSTOM' && this.printSettings?.customSize
-                ? `Custom.${this.printSettings.customSize.height}x${this.printSettings.customSize.width}in`
+            const mediaSize = printSettings.labelSize === 'CUSTOM' && printSettings.customSize
+                ? `Custom.${printSettings.customSize.height}x${printSettings.customSize.width}in`
                 : 'Custom.1x2.125in';
 
             // Platform-specific printing
@@ -1945,7 +3091,7 @@ class AutomationManager {
                 const { print: windowsPrint } = require('pdf-to-printer');
                 
                 const options = {
-                    printer: this.printerName,
+                    printer: printerName,
                     scale: "noscale",
                  //   paperSize: mediaSize,
                     orientation: "portrait",
@@ -1962,6 +3108,7 @@ class AutomationManager {
                     log.info('Windows print job completed successfully');
                 } catch (printError) {
                     log.error('Windows print error:', printError);
+                    emitAutomationEvent('printJob', { ...printJob, status: 'failed', error: String(printError) });
                     this.updateAutomationStatus(automation, {
                         message: 'Warning: Label printing failed, but listing was created successfully.',
                         progress: 100
@@ -1970,7 +3117,7 @@ class AutomationManager {
                 }
             } else {
                 // Unix-like systems (Mac/Linux) using lp command
-                const command = `lp -d "${this.printerName}" -o landscape -o orientation-requested=5 -o scaling=100 -o media=${mediaSize} "${labelPath}"`;
+                const command = `lp -d "${printerName}" -o landscape -o orientation-requested=5 -o scaling=100 -o media=${mediaSize} "${labelPath}"`;
                 
                 log.info('Sending print job with command:', command);
                 
@@ -1981,6 +3128,7 @@ class AutomationManager {
                 
                 if (stderr) {
                     log.error('Print error:', stderr);
+                    emitAutomationEvent('printJob', { ...printJob, status: 'failed', error: stderr });
                     this.updateAutomationStatus(automation, {
                         message: 'Warning: Label printing failed, but listing was created successfully.',
                         progress: 100
@@ -1991,6 +3139,7 @@ class AutomationManager {
                 log.info('Print job sent successfully!', stdout);
             }
 
+            emitAutomationEvent('printJob', { ...printJob, status: 'completed' });
             this.updateAutomationStatus(automation, {
                 message: `Successfully created listing with FNSKU: ${fnsku}`,
                 progress: 100,
@@ -1999,6 +3148,11 @@ class AutomationManager {
 
         } catch (error) {
             log.error('Label printing failed:', error);
+            emitAutomationEvent('printJob', {
+                ...printJob,
+                status: 'failed',
+                error: error instanceof Error ? error.message : 'Unknown error occurred'
+            });
             this.updateAutomationStatus(automation, {
                 message: 'Warning: Label printing failed, but listing was created successfully.',
                 progress: 100,
@@ -2034,6 +3188,20 @@ class AutomationManager {
             return completedResult;
         }
 
+        // Finally check the persisted job, which survives restarts
+        const job = this.jobStore.get(id);
+        if (job?.result) {
+            log.info('Found result in job store', { id, state: job.state });
+            return job.result;
+        }
+
+        // Idempotency keys keep the final result after the job record is pruned
+        const keyedResult = this.idempotencyKeys.findByAutomationId(id)?.result;
+        if (keyedResult) {
+            log.info('Found result in idempotency keys', { id });
+            return keyedResult;
+        }
+
         log.info('No result found for automation', { id });
         return null;
     }
@@ -2060,30 +3228,35 @@ class AutomationManager {
         });
     }
 
-    getPrinterName(): string {
-        return this.printerName;
+    // Printer of the profile (default: the active one), falling back to the system default printer
+    getPrinterName(profileName?: string): string {
+        return this.findProfile(profileName)?.printSettings?.printer || this.printerName;
     }
 
-    // Add a method to get print settings
-    getPrintSettings(): PrintSettings {
-        return this.printSettings;
+    // Print settings of the profile (default: the active one); profiles without their own share printSettings
+    getPrintSettings(profileName?: string): PrintSettings {
+        return this.findProfile(profileName)?.printSettings ?? this.printSettings;
     }
 
     // Add a method to update print settings
-    setPrintSettings(settings: PrintSettings) {
+    setPrintSettings(settings: PrintSettings, profileName?: string) {
         log.info('Updating print settings:', settings);
+        const profile = this.getProfile(profileName);
+        const current = this.getPrintSettings(profile.name);
         // Only update provided settings, preserve others
-        this.printSettings = {
-            ...this.printSettings,  // Keep existing settings
+        const printSettings = {
+            ...current,             // Keep existing settings
             ...settings,            // Override with new settings
-            copies: settings.copies || this.printSettings.copies || 0  // Preserve copies if not explicitly set
+            copies: settings.copies || current.copies || 0  // Preserve copies if not explicitly set
+        };
+        this.automationSettings = {
+            ...this.automationSettings,
+            profiles: this.automationSettings.profiles.map(entry =>
+                entry.name === profile.name ? { ...entry, printSettings } : entry
+            )
         };
         
-        if (settings.printer) {
-            this.printerName = settings.printer;
-        }
-        
-        log.info('Final print settings:', this.printSettings);
+        log.info('Final print settings:', { profile: profile.name, ...printSettings });
         
         this.saveSettings().catch(error => {
             log.error('Failed to save print settings:', error);
@@ -2094,7 +3267,8 @@ class AutomationManager {
     private async saveSettings() {
         try {
             const settingsToSave = {
-                printSettings: this.printSettings
+                printSettings: this.printSettings,
+                automationSettings: this.automationSettings
             };
             await fs.writeFile(this.settingsPath, JSON.stringify(settingsToSave, null, 2));
             log.info('Settings saved successfully:', settingsToSave);
@@ -2116,6 +3290,45 @@ class AutomationManager {
                     };
                     log.info('Settings loaded successfully:', this.printSettings);
                 }
+                if (settings.automationSettings) {
+                    // sellerCentralUrl predates profiles and now lives on the default profile
+                    const { sellerCentralUrl, ...savedSettings } = settings.automationSettings;
+                    const profiles = migrateProfiles({ profiles: savedSettings.profiles, sellerCentralUrl });
+                    this.automationSettings = {
+                        ...DEFAULT_AUTOMATION_SETTINGS,
+                        ...savedSettings,
+                        profiles,
+                        activeProfile: profiles.some(profile => profile.name === savedSettings.activeProfile)
+                            ? savedSettings.activeProfile
+                            : profiles[0].name,
+                        browserPool: {
+                            ...DEFAULT_AUTOMATION_SETTINGS.browserPool,
+                            ...savedSettings.browserPool
+                        },
+                        scheduler: {
+                            ...DEFAULT_AUTOMATION_SETTINGS.scheduler,
+                            ...savedSettings.scheduler
+                        },
+                        tracing: {
+                            ...DEFAULT_AUTOMATION_SETTINGS.tracing,
+                            ...savedSettings.tracing
+                        },
+                        sessionMonitor: {
+                            ...DEFAULT_AUTOMATION_SETTINGS.sessionMonitor,
+                            ...savedSettings.sessionMonitor
+                        },
+                        pricing: {
+                            ...DEFAULT_PRICING_RULES,
+                            ...savedSettings.pricing,
+                            sanityGuard: {
+                                ...DEFAULT_PRICING_RULES.sanityGuard,
+                                ...savedSettings.pricing?.sanityGuard
+                            }
+                        },
+                        retryPolicies: mergeRetryPolicies(savedSettings.retryPolicies)
+                    };
+                    log.info('Automation settings loaded:', this.automationSettings);
+                }
             }
         } catch (error) {
             log.error('Failed to load settings:', error);
@@ -2126,6 +3339,7 @@ class AutomationManager {
     private updateActiveAutomationCount() {
         const activeCount = this.runningAutomations.size;
         ipcWebContentsSend('activeAutomationsCount', this.mainWindow.webContents, activeCount);
+        emitAutomationEvent('activeAutomationsCount', activeCount);
         log.info('Updated active automation count', { activeCount });
     }
 }
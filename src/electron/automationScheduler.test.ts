@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { AutomationScheduler } from './automationScheduler.js';
+
+// Records the order in which scheduled automations are allowed to start
+function createScheduler(settings: SchedulerSettings) {
+    const started: string[] = [];
+    const positions: Map<string, number>[] = [];
+    const scheduler = new AutomationScheduler(() => settings, queue => positions.push(queue));
+    const schedule = (id: string, type: AutomationRequest['type'], priority?: AutomationPriority) =>
+        scheduler.schedule(id, type, priority).then(() => { started.push(id); });
+    return { scheduler, schedule, started, positions };
+}
+
+// Let resolved schedule() promises run their callbacks
+const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('AutomationScheduler', () => {
+    it('starts up to maxConcurrent automations and the next one when a slot frees up', async () => {
+        const { scheduler, schedule, started } = createScheduler({ maxConcurrent: 2, typeLimits: {} });
+        schedule('a', 'inventory');
+        schedule('b', 'inventory');
+        schedule('c', 'inventory');
+        await flush();
+        expect(started).toEqual(['a', 'b']);
+
+        scheduler.release('a');
+        await flush();
+        expect(started).toEqual(['a', 'b', 'c']);
+    });
+
+    it('runs urgent before normal before bulk, first-in-first-out within a lane', async () => {
+        const { scheduler, schedule, started } = createScheduler({ maxConcurrent: 1, typeLimits: {} });
+        schedule('running', 'inventory');
+        schedule('bulk-1', 'createListing', 'bulk');
+        schedule('normal-1', 'createListing');
+        schedule('bulk-2', 'createListing', 'bulk');
+        schedule('urgent', 'createListing', 'urgent');
+        schedule('normal-2', 'createListing', 'normal');
+        await flush();
+
+        for (const id of ['running', 'urgent', 'normal-1', 'normal-2', 'bulk-1']) {
+            scheduler.release(id);
+            await flush();
+        }
+        expect(started).toEqual(['running', 'urgent', 'normal-1', 'normal-2', 'bulk-1', 'bulk-2']);
+    });
+
+    it('holds back a type at its limit while other types still start', async () => {
+        const { scheduler, schedule, started } = createScheduler({ maxConcurrent: 3, typeLimits: { createListing: 1 } });
+        schedule('listing-1', 'createListing', 'urgent');
+        schedule('listing-2', 'createListing', 'urgent');
+        schedule('inventory', 'inventory', 'bulk');
+        await flush();
+        expect(started).toEqual(['listing-1', 'inventory']);
+
+        scheduler.release('inventory');
+        await flush();
+        expect(started).toEqual(['listing-1', 'inventory']);
+
+        scheduler.release('listing-1');
+        await flush();
+        expect(started).toEqual(['listing-1', 'inventory', 'listing-2']);
+    });
+
+    it('rejects a removed automation and reports queue positions', async () => {
+        const { scheduler, schedule, positions } = createScheduler({ maxConcurrent: 1, typeLimits: {} });
+        schedule('a', 'orders');
+        const removed = schedule('b', 'orders');
+        schedule('c', 'orders');
+        expect(positions.at(-1)).toEqual(new Map([['b', 1], ['c', 2]]));
+        expect(scheduler.isQueued('b')).toBe(true);
+
+        expect(scheduler.remove('b', new Error('cancelled'))).toBe(true);
+        await expect(removed).rejects.toThrow('cancelled');
+        expect(scheduler.isQueued('b')).toBe(false);
+        expect(positions.at(-1)).toEqual(new Map([['c', 1]]));
+        expect(scheduler.remove('b', new Error('cancelled'))).toBe(false);
+    });
+
+    it('ignores releasing an automation twice', async () => {
+        const { scheduler, schedule, started } = createScheduler({ maxConcurrent: 1, typeLimits: {} });
+        schedule('a', 'orders');
+        schedule('b', 'orders');
+        schedule('c', 'orders');
+        await flush();
+
+        scheduler.release('a');
+        scheduler.release('a');
+        await flush();
+        expect(started).toEqual(['a', 'b']);
+    });
+});
@@ -0,0 +1,88 @@
+type ScheduledAutomation = {
+    id: string;
+    type: AutomationRequest['type'];
+    priority: AutomationPriority;
+    sequence: number;
+    start: () => void;
+    reject: (error: Error) => void;
+};
+
+// Lower rank runs first
+const PRIORITY_RANK: Record<AutomationPriority, number> = {
+    urgent: 0,
+    normal: 1,
+    bulk: 2
+};
+
+/**
+ * Decides when queued automations may start.
+ * Honours a global concurrency limit, optional per-type limits and priority lanes
+ * (urgent before normal before bulk, first-in-first-out within a lane).
+ */
+export class AutomationScheduler {
+    private queue: ScheduledAutomation[] = [];
+    private running: Map<string, AutomationRequest['type']> = new Map();
+    private sequence = 0;
+
+    constructor(
+        private getSettings: () => SchedulerSettings,
+        private onQueueChanged: (positions: Map<string, number>) => void
+    ) {}
+
+    // Resolves once the automation may start. Rejects if it is removed from the queue first.
+    schedule(id: string, type: AutomationRequest['type'], priority: AutomationPriority = 'normal'): Promise<void> {
+        return new Promise((resolve, reject) => {
+            this.queue.push({ id, type, priority, sequence: this.sequence++, start: resolve, reject });
+            this.dispatch();
+        });
+    }
+
+    // Free the slot of a finished automation. Safe to call more than once.
+    release(id: string) {
+        if (this.running.delete(id)) {
+            this.dispatch();
+        }
+    }
+
+    // Drop a queued automation, rejecting its pending schedule() call
+    remove(id: string, error: Error): boolean {
+        const index = this.queue.findIndex(entry => entry.id === id);
+        if (index === -1) return false;
+
+        const [entry] = this.queue.splice(index, 1);
+        entry.reject(error);
+        this.dispatch();
+        return true;
+    }
+
+    isQueued(id: string): boolean {
+        return this.queue.some(entry => entry.id === id);
+    }
+
+    private dispatch() {
+        const settings = this.getSettings();
+        this.queue.sort((a, b) =>
+            PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority] || a.sequence - b.sequence
+        );
+
+        // Skip entries blocked by their type limit so other types can still start
+        for (const entry of [...this.queue]) {
+            if (this.running.size >= settings.maxConcurrent) break;
+            if (!this.hasTypeCapacity(entry.type, settings)) continue;
+
+            this.queue.splice(this.queue.indexOf(entry), 1);
+            this.running.set(entry.id, entry.type);
+            entry.start();
+        }
+
+        this.onQueueChanged(new Map(this.queue.map((entry, index) => [entry.id, index + 1])));
+    }
+
+    private hasTypeCapacity(type: AutomationRequest['type'], settings: SchedulerSettings): boolean {
+        const limit = settings.typeLimits[type];
+        if (limit === undefined) return true;
+
+        const runningOfType = Array.from(this.running.values()).filter(runningType => runningType === type).length;
+        return runningOfType < limit;
+    }
+}
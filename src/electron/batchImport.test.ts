@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { parseBatchRows } from './batchImport.js';
+import { DEFAULT_PRICING_RULES } from './pricingRules.js';
+
+describe('parseBatchRows', () => {
+    it('normalizes CSV headers into listing params', () => {
+        const csv = 'ASIN,SKU,Price,Condition,Condition Notes\nb000000001,SKU-1,12.50,Used - Good,"Light wear, no box"\n';
+        expect(parseBatchRows(csv, 'csv', DEFAULT_PRICING_RULES)).toEqual({
+            rows: [{
+                asin: 'B000000001',
+                sku: 'SKU-1',
+                price: 12.5,
+                condition: 'Used - Good',
+                conditionNotes: 'Light wear, no box'
+            }],
+            errors: []
+        });
+    });
+
+    it('accepts JSON arrays and snake_case keys', () => {
+        const json = '[{"asin":"B000000001","sku":"SKU-1","price":5,"condition_notes":"ok"}]';
+        const { rows, errors } = parseBatchRows(json, 'json', DEFAULT_PRICING_RULES);
+        expect(errors).toEqual([]);
+        expect(rows[0]).toMatchObject({ sku: 'SKU-1', price: 5, conditionNotes: 'ok' });
+    });
+
+    it('reports every problem of every row, numbered from 1', () => {
+        const { rows, errors } = parseBatchRows([
+            { asin: 'B000000001', sku: 'SKU-1', price: 10 },
+            { asin: 'nope', sku: '', price: 'abc', condition: 'New' },
+            { asin: 'B000000003', sku: 'SKU-1', price: 10 }
+        ], 'json', DEFAULT_PRICING_RULES);
+
+        expect(rows).toHaveLength(1);
+        expect(errors).toEqual([
+            {
+                row: 2,
+                errors: [
+                    'Invalid ASIN "NOPE"',
+                    'SKU is required',
+                    'Invalid price "abc"',
+                    expect.stringContaining('Invalid condition "New"')
+                ]
+            },
+            { row: 3, errors: ['Duplicate SKU SKU-1 in batch'] }
+        ]);
+    });
+
+    it('rejects unparseable or empty input', () => {
+        expect(parseBatchRows('{', 'json', DEFAULT_PRICING_RULES).errors[0])
+            .toMatchObject({ row: 0, errors: [expect.stringContaining('Could not parse JSON')] });
+        expect(parseBatchRows('asin,sku\n', 'csv', DEFAULT_PRICING_RULES).errors).toEqual([{ row: 0, errors: ['Batch contains no rows'] }]);
+    });
+
+    it('requires a price unless the pricing rules match it to the market', () => {
+        const row = [{ asin: 'B000000001', sku: 'SKU-1' }];
+        expect(parseBatchRows(row, 'json', DEFAULT_PRICING_RULES).errors).toEqual([{ row: 1, errors: ['Price is required'] }]);
+        expect(parseBatchRows(row, 'json', { ...DEFAULT_PRICING_RULES, missingPriceMode: 'matchLowestUsed' }).errors).toEqual([]);
+    });
+
+    it('rejects prices the sanity guard would reject mid-run', () => {
+        const sanityGuard = { enabled: true, minPrice: 1, maxPrice: 100 };
+        const { rows, errors } = parseBatchRows([
+            { asin: 'B000000001', sku: 'SKU-1', price: '999.00' },
+            { asin: 'B000000002', sku: 'SKU-2', price: '9.99' }
+        ], 'json', { ...DEFAULT_PRICING_RULES, sanityGuard });
+
+        expect(rows.map(row => row.sku)).toEqual(['SKU-2']);
+        expect(errors).toEqual([{ row: 1, errors: [expect.stringContaining('outside the allowed range 1-100')] }]);
+    });
+
+    it('checks the price after the condition multiplier', () => {
+        const pricing: PricingRules = {
+            ...DEFAULT_PRICING_RULES,
+            sanityGuard: { enabled: true, minPrice: 1, maxPrice: 100 },
+            conditionMultipliers: { 'Used - Acceptable': 0.5 }
+        };
+        const { errors } = parseBatchRows([
+            { asin: 'B000000001', sku: 'SKU-1', price: 150, condition: 'Used - Acceptable' }
+        ], 'json', pricing);
+        expect(errors).toEqual([]);
+    });
+});
@@ -0,0 +1,143 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { parseCsv, toCsv } from './csv.js';
+import { computeListingPricing } from './pricingRules.js';
+
+type ListingParams = NonNullable<AutomationRequest['params']>;
+
+// Persisted mapping of batch rows to the automations they created
+export type AutomationBatch = {
+    id: string;
+    createdAt: string;
+    rows: {
+        row: number;
+        automationId: string;
+        params: ListingParams;
+    }[];
+};
+
+const LISTING_CONDITIONS: ListingCondition[] = ['Used - Like New', 'Used - Very Good', 'Used - Good', 'Used - Acceptable'];
+const MAX_SKU_LENGTH = 40;
+const MAX_CONDITION_NOTES_LENGTH = 1000;
+
+export const BATCH_REPORT_COLUMNS: (keyof BatchReportRow)[] = ['row', 'sku', 'asin', 'state', 'fnsku', 'error', 'automationId'];
+
+/**
+ * Parses and validates every row of a batch before anything is queued.
+ * CSV headers and JSON keys are matched case-insensitively against the listing params.
+ * Prices go through the pricing rules, so one the sanity guard would reject fails here
+ * instead of mid-run. Rows may leave the price empty when the rules match it to the market.
+ */
+export function parseBatchRows(
+    input: string | unknown[],
+    format: BatchImportFormat,
+    rules: PricingRules
+): { rows: ListingParams[]; errors: BatchRowError[] } {
+    let rawRows: unknown[];
+    try {
+        rawRows = typeof input !== 'string' ? input
+            : format === 'csv' ? parseCsv(input)
+            : JSON.parse(input);
+    } catch (error) {
+        return { rows: [], errors: [{ row: 0, errors: [`Could not parse ${format.toUpperCase()}: ${error instanceof Error ? error.message : error}`] }] };
+    }
+
+    if (!Array.isArray(rawRows) || rawRows.length === 0) {
+        return { rows: [], errors: [{ row: 0, errors: ['Batch contains no rows'] }] };
+    }
+
+    const rows: ListingParams[] = [];
+    const errors: BatchRowError[] = [];
+    const seenSkus = new Set<string>();
+
+    rawRows.forEach((rawRow, index) => {
+        const { params, errors: rowErrors } = validateListingRow(rawRow, rules);
+        if (params.sku && seenSkus.has(params.sku)) {
+            rowErrors.push(`Duplicate SKU ${params.sku} in batch`);
+        }
+        if (params.sku) seenSkus.add(params.sku);
+
+        if (rowErrors.length > 0) {
+            errors.push({ row: index + 1, errors: rowErrors });
+        } else {
+            rows.push(params);
+        }
+    });
+
+    return { rows, errors };
+}
+
+function validateListingRow(rawRow: unknown, rules: PricingRules): { params: ListingParams; errors: string[] } {
+    if (!rawRow || typeof rawRow !== 'object') {
+        return { params: {}, errors: ['Row is not an object'] };
+    }
+
+    // Normalize keys so "ASIN", "Condition Notes" and "conditionNotes" all match
+    const fields = Object.fromEntries(
+        Object.entries(rawRow).map(([key, value]) => [key.toLowerCase().replace(/[\s_-]/g, ''), value])
+    );
+    const text = (key: string) => fields[key] === undefined || fields[key] === null ? '' : String(fields[key]).trim();
+
+    const errors: string[] = [];
+    const asin = text('asin').toUpperCase();
+    const sku = text('sku');
+    const priceText = text('price');
+    const price = Number(priceText);
+    const condition = text('condition');
+    const conditionNotes = text('conditionnotes');
+
+    if (!/^[A-Z0-9]{10}$/.test(asin)) {
+        errors.push(asin ? `Invalid ASIN "${asin}"` : 'ASIN is required');
+    }
+    if (!sku) {
+        errors.push('SKU is required');
+    } else if (sku.length > MAX_SKU_LENGTH) {
+        errors.push(`SKU is longer than ${MAX_SKU_LENGTH} characters`);
+    }
+    const validCondition = !condition || LISTING_CONDITIONS.includes(condition as ListingCondition);
+    if (priceText ? !Number.isFinite(price) || price <= 0 : rules.missingPriceMode === 'required') {
+        errors.push(priceText ? `Invalid price "${priceText}"` : 'Price is required');
+    } else if (priceText && validCondition) {
+        try {
+            computeListingPricing(rules, price, condition ? condition as ListingCondition : undefined);
+        } catch (error) {
+            errors.push(error instanceof Error ? error.message : String(error));
+        }
+    }
+    if (!validCondition) {
+        errors.push(`Invalid condition "${condition}" (expected one of: ${LISTING_CONDITIONS.join(', ')})`);
+    }
+    if (conditionNotes.length > MAX_CONDITION_NOTES_LENGTH) {
+        errors.push(`Condition notes are longer than ${MAX_CONDITION_NOTES_LENGTH} characters`);
+    }
+
+    return {
+        params: {
+            asin,
+            sku,
+            price: priceText ? price : undefined,
+            condition: condition ? condition as ListingCondition : undefined,
+            conditionNotes: conditionNotes || undefined
+        },
+        errors
+    };
+}
+
+export async function saveBatch(batchesPath: string, batch: AutomationBatch) {
+    await fs.mkdir(batchesPath, { recursive: true });
+    await fs.writeFile(path.join(batchesPath, `${batch.id}.json`), JSON.stringify(batch, null, 2));
+}
+
+export async function loadBatch(batchesPath: string, batchId: string): Promise<AutomationBatch | null> {
+    // Batch IDs are UUIDs; reject anything that could escape the directory
+    if (!/^[\w-]+$/.test(batchId)) return null;
+    try {
+        return JSON.parse(await fs.readFile(path.join(batchesPath, `${batchId}.json`), 'utf-8')) as AutomationBatch;
+    } catch {
+        return null;
+    }
+}
+
+export function batchReportToCsv(rows: BatchReportRow[]): string {
+    return toCsv(rows, BATCH_REPORT_COLUMNS);
+}
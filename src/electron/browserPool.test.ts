@@ -0,0 +1,63 @@
+import { Browser, BrowserContext } from 'playwright';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { BrowserPool } from './browserPool.js';
+
+const settings: BrowserPoolSettings = { maxBrowsers: 1, maxConcurrency: 2, recycleAfterJobs: 100 };
+const profile: SellerProfile = { name: 'default', sellerCentralUrl: 'https://sellercentral.amazon.com', currency: 'USD', locale: 'en-US' };
+
+const fakeContext = () => ({ close: vi.fn(async () => {}) }) as unknown as BrowserContext;
+
+// A browser whose health check probe (newContext) never answers
+function hangingBrowser() {
+    const browser = {
+        isConnected: () => true,
+        newContext: () => new Promise<BrowserContext>(() => {}),
+        close: vi.fn(async () => {}),
+        on: () => browser
+    };
+    return browser;
+}
+
+describe('BrowserPool health check', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+    });
+
+    it('closes an idle browser that fails the check', async () => {
+        const browser = hangingBrowser();
+        const pool = new BrowserPool(async () => browser as unknown as Browser, async () => fakeContext(), () => settings);
+        await pool.warmUp();
+
+        await vi.advanceTimersByTimeAsync(60 * 1000 + 10 * 1000);
+
+        expect(browser.close).toHaveBeenCalled();
+        expect(pool.getStats().browsers).toBe(0);
+        await pool.shutdown();
+    });
+
+    it('leaves a browser leased during the check to its automation and retires it afterwards', async () => {
+        const browser = hangingBrowser();
+        const pool = new BrowserPool(async () => browser as unknown as Browser, async () => fakeContext(), () => settings);
+        await pool.warmUp();
+
+        // The check starts and waits on its probe; an automation takes the browser meanwhile
+        await vi.advanceTimersByTimeAsync(60 * 1000);
+        const lease = await pool.acquire(profile);
+        await vi.advanceTimersByTimeAsync(10 * 1000);
+
+        expect(browser.close).not.toHaveBeenCalled();
+        expect(pool.getStats().browsers).toBe(1);
+
+        await lease.release();
+        expect(browser.close).toHaveBeenCalled();
+        expect(pool.getStats().browsers).toBe(0);
+        await pool.shutdown();
+    });
+});
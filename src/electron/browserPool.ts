@@ -0,0 +1,195 @@
+import { Browser, BrowserContext } from 'playwright';
+
+export type BrowserLease = {
+    browser: Browser;
+    context: BrowserContext;
+    release: () => Promise<void>;
+};
+
+type PooledBrowser = {
+    browser: Browser;
+    activeContexts: number;
+    jobsServed: number;
+    retiring: boolean;
+};
+
+const HEALTH_CHECK_INTERVAL = 60 * 1000;
+const HEALTH_CHECK_TIMEOUT = 10 * 1000;
+
+/**
+ * Keeps a few warm Firefox instances and hands out one isolated context per automation.
+ * Browsers are recycled after serving `recycleAfterJobs` contexts and replaced when they
+ * fail a health check. At most `maxConcurrency` contexts are leased at any time.
+ */
+export class BrowserPool {
+    private browsers: PooledBrowser[] = [];
+    private pendingLaunches = 0;
+    private lastLaunch: Promise<PooledBrowser> | null = null;
+    private activeLeases = 0;
+    private waiters: Array<() => void> = [];
+    private healthCheckTimer: NodeJS.Timeout;
+
+    constructor(
+        private launchBrowser: () => Promise<Browser>,
+        private createContext: (browser: Browser, profile: SellerProfile) => Promise<BrowserContext>,
+        private getSettings: () => BrowserPoolSettings
+    ) {
+        this.healthCheckTimer = setInterval(() => {
+            this.checkHealth().catch(error => console.error('Browser pool health check failed:', error));
+        }, HEALTH_CHECK_INTERVAL);
+    }
+
+    // Launch a browser ahead of time so the first automation skips the cold start
+    async warmUp() {
+        if (this.browsers.length + this.pendingLaunches > 0) return;
+        await this.launch();
+    }
+
+    // Browsers are shared between profiles; each context carries one profile's session
+    async acquire(profile: SellerProfile): Promise<BrowserLease> {
+        await this.waitForSlot();
+
+        let pooled: PooledBrowser | undefined;
+        try {
+            pooled = await this.pickBrowser();
+            pooled.activeContexts++;
+            pooled.jobsServed++;
+            if (pooled.jobsServed >= this.getSettings().recycleAfterJobs) {
+                pooled.retiring = true;
+            }
+
+            const context = await this.createContext(pooled.browser, profile);
+            const leased = pooled;
+            let released = false;
+
+            return {
+                browser: leased.browser,
+                context,
+                release: async () => {
+                    if (released) return;
+                    released = true;
+                    await context.close().catch(error => console.error('Failed to close browser context:', error));
+                    leased.activeContexts--;
+                    this.activeLeases--;
+                    await this.retireIfDone(leased);
+                    this.wakeNextWaiter();
+                }
+            };
+        } catch (error) {
+            if (pooled) {
+                pooled.activeContexts--;
+            }
+            this.activeLeases--;
+            this.wakeNextWaiter();
+            throw error;
+        }
+    }
+
+    getStats() {
+        return {
+            browsers: this.browsers.length,
+            activeLeases: this.activeLeases,
+            waiting: this.waiters.length
+        };
+    }
+
+    // Replace every browser, e.g. after launch options changed. Busy ones finish their contexts first.
+    async recycleAll() {
+        for (const pooled of this.browsers) {
+            pooled.retiring = true;
+        }
+        await Promise.all(this.browsers.map(pooled => this.retireIfDone(pooled)));
+    }
+
+    async shutdown() {
+        clearInterval(this.healthCheckTimer);
+        const browsers = this.browsers;
+        this.browsers = [];
+        await Promise.all(browsers.map(pooled =>
+            pooled.browser.close().catch(error => console.error('Failed to close pooled browser:', error))
+        ));
+    }
+
+    // Reserve a lease slot, waiting in line when the pool is saturated
+    private waitForSlot(): Promise<void> {
+        if (this.activeLeases < this.getSettings().maxConcurrency) {
+            this.activeLeases++;
+            return Promise.resolve();
+        }
+        return new Promise(resolve => this.waiters.push(resolve));
+    }
+
+    // Hand a freed slot to the next waiter so new callers can't jump the line
+    private wakeNextWaiter() {
+        if (this.waiters.length === 0 || this.activeLeases >= this.getSettings().maxConcurrency) return;
+        this.activeLeases++;
+        this.waiters.shift()!();
+    }
+
+    // Reuse the least busy browser, launching a new one while under the browser limit
+    private async pickBrowser(): Promise<PooledBrowser> {
+        const available = this.browsers
+            .filter(pooled => !pooled.retiring && pooled.browser.isConnected())
+            .sort((a, b) => a.activeContexts - b.activeContexts);
+
+        const canLaunch = available.length + this.pendingLaunches < this.getSettings().maxBrowsers;
+        if (available.length === 0 || (available[0].activeContexts > 0 && canLaunch)) {
+            // Share a browser that is already starting instead of going over the limit
+            if (!canLaunch && this.pendingLaunches > 0 && this.lastLaunch) {
+                return this.lastLaunch;
+            }
+            this.lastLaunch = this.launch();
+            return this.lastLaunch;
+        }
+        return available[0];
+    }
+
+    private async launch(): Promise<PooledBrowser> {
+        this.pendingLaunches++;
+        try {
+            const browser = await this.launchBrowser();
+            const pooled: PooledBrowser = { browser, activeContexts: 0, jobsServed: 0, retiring: false };
+            browser.on('disconnected', () => {
+                this.browsers = this.browsers.filter(entry => entry !== pooled);
+            });
+            this.browsers.push(pooled);
+            console.log(`Browser pool launched browser (${this.browsers.length} running)`);
+            return pooled;
+        } finally {
+            this.pendingLaunches--;
+        }
+    }
+
+    private async retireIfDone(pooled: PooledBrowser) {
+        if (!pooled.retiring || pooled.activeContexts > 0) return;
+
+        console.log(`Recycling browser after ${pooled.jobsServed} jobs`);
+        this.browsers = this.browsers.filter(entry => entry !== pooled);
+        await pooled.browser.close().catch(error => console.error('Failed to close recycled browser:', error));
+    }
+
+    // Replace idle browsers that can no longer open a context
+    private async checkHealth() {
+        for (const pooled of [...this.browsers]) {
+            if (pooled.activeContexts > 0) continue;
+
+            const healthy = pooled.browser.isConnected() && await Promise.race([
+                pooled.browser.newContext().then(context => context.close()).then(() => true),
+                new Promise<boolean>(resolve => setTimeout(() => resolve(false), HEALTH_CHECK_TIMEOUT))
+            ]).catch(() => false);
+
+            if (healthy) continue;
+
+            // An automation may have leased it while the check ran; close it once that one is done
+            if (pooled.activeContexts > 0) {
+                console.error('Pooled browser failed health check, retiring it after its current automation');
+                pooled.retiring = true;
+                continue;
+            }
+
+            console.error('Pooled browser failed health check, closing it');
+            this.browsers = this.browsers.filter(entry => entry !== pooled);
+            await pooled.browser.close().catch(() => undefined);
+        }
+    }
+}
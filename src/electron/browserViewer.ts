@@ -0,0 +1,70 @@
+import { BrowserWindow } from 'electron';
+import { Page } from 'playwright';
+
+// How often the viewer refreshes its picture of the page
+const FRAME_INTERVAL = 1000;
+
+const VIEWER_HTML = `
+<!DOCTYPE html>
+<html>
+<head>
+    <style>
+        body { margin: 0; background: #222; color: #ddd; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; }
+        #url { padding: 6px 10px; font-size: 12px; white-space: nowrap; overflow: hidden; text-overflow: ellipsis; }
+        #frame { display: block; width: 100%; }
+    </style>
+</head>
+<body>
+    <div id="url">Waiting for the page...</div>
+    <img id="frame" alt="">
+    <script>
+        function showFrame(data, url) {
+            document.getElementById('frame').src = 'data:image/jpeg;base64,' + data;
+            document.getElementById('url').textContent = url;
+        }
+    </script>
+</body>
+</html>`;
+
+/**
+ * Read-only live view of an automation page, for watching a headless run while
+ * troubleshooting. Streams screenshots into a small window; returns a function that
+ * closes it. `onClosed` runs however the window goes away.
+ */
+export function openBrowserViewer(page: Page, title: string, onClosed: () => void): () => void {
+    const viewer = new BrowserWindow({
+        width: 1000,
+        height: 660,
+        title,
+        backgroundColor: '#222222'
+    });
+    viewer.loadURL(`data:text/html;charset=utf-8,${encodeURIComponent(VIEWER_HTML)}`);
+
+    let capturing = false;
+    const timer = setInterval(async () => {
+        // Skip a tick rather than queue screenshots behind a slow one
+        if (capturing || page.isClosed()) return;
+        capturing = true;
+        try {
+            const frame = await page.screenshot({ type: 'jpeg', quality: 70, timeout: 5000 });
+            if (!viewer.isDestroyed()) {
+                await viewer.webContents.executeJavaScript(
+                    `showFrame(${JSON.stringify(frame.toString('base64'))}, ${JSON.stringify(page.url())})`
+                );
+            }
+        } catch (error) {
+            console.log('Live view frame skipped:', error instanceof Error ? error.message : error);
+        } finally {
+            capturing = false;
+        }
+    }, FRAME_INTERVAL);
+
+    viewer.on('closed', () => {
+        clearInterval(timer);
+        onClosed();
+    });
+
+    return () => {
+        if (!viewer.isDestroyed()) viewer.close();
+    };
+}
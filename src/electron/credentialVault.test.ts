@@ -0,0 +1,69 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { deleteCredentials, describeCredentials, loadCredentials, saveCredentials } from './credentialVault.js';
+
+// safeStorage needs a running Electron; a reversible stand-in is enough to check the file never holds plain text
+vi.mock('electron', () => ({
+    safeStorage: {
+        isEncryptionAvailable: () => true,
+        encryptString: (text: string) => Buffer.from(text, 'utf-8').reverse(),
+        decryptString: (encrypted: Buffer) => Buffer.from(encrypted).reverse().toString('utf-8')
+    }
+}));
+
+describe('credentialVault', () => {
+    let profileDir: string;
+
+    beforeEach(async () => {
+        profileDir = await fs.mkdtemp(path.join(os.tmpdir(), 'credential-vault-'));
+    });
+
+    afterEach(async () => {
+        await fs.rm(profileDir, { recursive: true, force: true });
+    });
+
+    it('round-trips credentials through the encrypted file', async () => {
+        await saveCredentials(profileDir, {
+            email: '  seller@example.com ',
+            password: 'hunter2',
+            totpSecret: ' GEZD GNBV '
+        });
+
+        expect(await loadCredentials(profileDir)).toEqual({
+            email: 'seller@example.com',
+            password: 'hunter2',
+            totpSecret: 'GEZD GNBV'
+        });
+        const stored = await fs.readFile(path.join(profileDir, 'credentials.enc'), 'utf-8');
+        expect(stored).not.toContain('hunter2');
+    });
+
+    it('leaves out an empty TOTP secret', async () => {
+        await saveCredentials(profileDir, { email: 'seller@example.com', password: 'hunter2', totpSecret: '  ' });
+        expect(await loadCredentials(profileDir)).toEqual({ email: 'seller@example.com', password: 'hunter2' });
+    });
+
+    it('returns undefined when nothing was saved or it was deleted', async () => {
+        expect(await loadCredentials(profileDir)).toBeUndefined();
+
+        await saveCredentials(profileDir, { email: 'seller@example.com', password: 'hunter2' });
+        await deleteCredentials(profileDir);
+        expect(await loadCredentials(profileDir)).toBeUndefined();
+    });
+
+    it('rejects incomplete credentials and invalid TOTP secrets', async () => {
+        await expect(saveCredentials(profileDir, { email: ' ', password: 'hunter2' })).rejects.toThrow('email');
+        await expect(saveCredentials(profileDir, { email: 'seller@example.com', password: '' })).rejects.toThrow('password');
+        await expect(saveCredentials(profileDir, { email: 'seller@example.com', password: 'hunter2', totpSecret: 'not base32!' }))
+            .rejects.toThrow('base32');
+        expect(await loadCredentials(profileDir)).toBeUndefined();
+    });
+
+    it('describes credentials without exposing secrets', () => {
+        expect(describeCredentials({ email: 'seller@example.com', password: 'hunter2', totpSecret: 'GEZD' }))
+            .toEqual({ email: 'seller@example.com', hasPassword: true, hasTotp: true });
+        expect(describeCredentials()).toEqual({ email: undefined, hasPassword: false, hasTotp: false });
+    });
+});
@@ -0,0 +1,50 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { readEncryptedJson, writeEncryptedJson } from './storageStateVault.js';
+import { decodeBase32 } from './totp.js';
+
+const CREDENTIALS_FILE = 'credentials.enc';
+
+/**
+ * Optional sign-in details for unattended re-login, one encrypted file per seller profile
+ * (see storageStateVault.ts). Only the main process ever reads the password and TOTP
+ * secret; the UI gets a CredentialsInfo.
+ */
+export async function loadCredentials(profileDir: string): Promise<SellerCredentials | undefined> {
+    return readEncryptedJson<SellerCredentials>(path.join(profileDir, CREDENTIALS_FILE));
+}
+
+export async function saveCredentials(profileDir: string, credentials: SellerCredentials) {
+    validateCredentials(credentials);
+    const totpSecret = credentials.totpSecret?.trim();
+    await writeEncryptedJson(path.join(profileDir, CREDENTIALS_FILE), {
+        email: credentials.email.trim(),
+        password: credentials.password,
+        ...(totpSecret ? { totpSecret } : {})
+    });
+}
+
+export async function deleteCredentials(profileDir: string) {
+    await fs.rm(path.join(profileDir, CREDENTIALS_FILE), { force: true });
+}
+
+export function describeCredentials(credentials?: SellerCredentials): CredentialsInfo {
+    return {
+        email: credentials?.email,
+        hasPassword: !!credentials?.password,
+        hasTotp: !!credentials?.totpSecret
+    };
+}
+
+// Throws on the first problem, worded for the settings screen
+function validateCredentials(credentials: SellerCredentials) {
+    if (!credentials.email?.trim()) {
+        throw new Error('An email address is required for unattended sign-in');
+    }
+    if (!credentials.password) {
+        throw new Error('A password is required for unattended sign-in');
+    }
+    if (credentials.totpSecret?.trim()) {
+        decodeBase32(credentials.totpSecret);
+    }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsv, toCsv } from './csv.js';
+
+describe('parseCsv', () => {
+    it('keys rows by the trimmed header row', () => {
+        expect(parseCsv(' asin , sku\nB000000001,SKU-1\r\nB000000002,SKU-2\r\n')).toEqual([
+            { asin: 'B000000001', sku: 'SKU-1' },
+            { asin: 'B000000002', sku: 'SKU-2' }
+        ]);
+    });
+
+    it('reads quoted fields with commas, escaped quotes and line breaks', () => {
+        expect(parseCsv('sku,notes\nSKU-1,"Small dent, ""as is""\nno box"\n')).toEqual([
+            { sku: 'SKU-1', notes: 'Small dent, "as is"\nno box' }
+        ]);
+    });
+
+    it('skips a byte order mark and blank lines, and fills missing fields', () => {
+        expect(parseCsv('\uFEFFsku,price\n\nSKU-1\n,\n')).toEqual([{ sku: 'SKU-1', price: '' }]);
+    });
+
+    it('returns no rows for empty input', () => {
+        expect(parseCsv('')).toEqual([]);
+    });
+});
+
+describe('toCsv', () => {
+    it('quotes only fields that need it and ends lines with CRLF', () => {
+        const rows = [
+            { sku: 'SKU-1', error: 'Price 999, check for a typo', fnsku: undefined },
+            { sku: 'say "hi"', error: 'line\nbreak', fnsku: 'X00123' }
+        ];
+        expect(toCsv(rows, ['sku', 'fnsku', 'error'])).toBe(
+            'sku,fnsku,error\r\n' +
+            'SKU-1,,"Price 999, check for a typo"\r\n' +
+            '"say ""hi""",X00123,"line\nbreak"\r\n'
+        );
+    });
+
+    it('round-trips through parseCsv', () => {
+        const rows = [{ sku: 'A,"B"', notes: 'multi\r\nline' }];
+        expect(parseCsv(toCsv(rows, ['sku', 'notes']))).toEqual(rows);
+    });
+});
@@ -0,0 +1,71 @@
+// Minimal RFC 4180 CSV helpers (quoted fields, escaped quotes, CRLF line endings)
+
+// Parse CSV text into one object per data row, keyed by the header row
+export function parseCsv(text: string): Record<string, string>[] {
+    const records = parseRecords(text.replace(/^\uFEFF/, ''));
+    const [header, ...rows] = records.filter(record => record.some(field => field.trim() !== ''));
+    if (!header) return [];
+
+    const keys = header.map(key => key.trim());
+    return rows.map(row => Object.fromEntries(keys.map((key, index) => [key, row[index] ?? ''])));
+}
+
+// Serialize rows to CSV using the given column order
+export function toCsv<Row extends object>(rows: Row[], columns: (keyof Row & string)[]): string {
+    const lines = [
+        columns.map(escapeField).join(','),
+        ...rows.map(row => columns.map(column => escapeField(row[column])).join(','))
+    ];
+    return lines.join('\r\n') + '\r\n';
+}
+
+function escapeField(value: unknown): string {
+    if (value === undefined || value === null) return '';
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function parseRecords(text: string): string[][] {
+    const records: string[][] = [];
+    let record: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+
+        if (inQuotes) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === '"') {
+            inQuotes = true;
+        } else if (char === ',') {
+            record.push(field);
+            field = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && text[i + 1] === '\n') i++;
+            record.push(field);
+            records.push(record);
+            record = [];
+            field = '';
+        } else {
+            field += char;
+        }
+    }
+
+    if (field !== '' || record.length > 0) {
+        record.push(field);
+        records.push(record);
+    }
+
+    return records;
+}
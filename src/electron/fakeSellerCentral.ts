@@ -0,0 +1,559 @@
+import express from 'express';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+
+/**
+ * A local stand-in for the parts of Seller Central the automations touch, so the listing
+ * flow can run end to end offline (demos, automated tests, simulation mode).
+ *
+ * Reproduces the sign-in redirect, the offer page, Convert and Send, the prep modal,
+ * Manage Inventory and Manage Orders. The ASIN picks the scenario:
+ *   - ending in "D": the dangerous-goods questions must be answered before converting
+ *   - ending in "M": the missing-dimensions dialog appears after prep
+ *   - ending in "R": the offer is rejected because the ASIN needs approval
+ * The offer page announces each of these up front, and shows made-up competing offers.
+ * Reusing a SKU is rejected like on Seller Central.
+ *
+ * Control endpoints for tests live under /__simulator (state, reset, expire-sessions).
+ */
+
+export type FakeSellerCentral = {
+    url: string;
+    close: () => Promise<void>;
+};
+
+type FakeListing = {
+    sku: string;
+    asin: string;
+    price: number;
+    listPrice?: number;
+    condition: string;
+    conditionNotes?: string;
+    fnsku?: string;
+    prepCategory?: string;
+    dimensions?: Record<string, string>;
+    createdAt: string;
+};
+
+type FakeOrder = {
+    orderId: string;
+    orderDate: Date;
+    sku: string;
+    asin: string;
+    quantity: number;
+    itemPrice: number;
+    fulfillmentChannel: string;
+    status: string;
+};
+
+const SESSION_COOKIE = 'sc_session';
+const TABLE_PAGE_SIZE = 10;
+const CONDITIONS = ['Used - Like New', 'Used - Very Good', 'Used - Good', 'Used - Acceptable'];
+const CONVERT_AND_SEND_TEST_ID = 'button-label-for-SC_FBA_LFBA_1_PAGE_LIST_AS_FBA_BUTTON_CONVERTANDSEND';
+
+const STYLES = `
+    body { font-family: Arial, sans-serif; margin: 2rem; }
+    kat-radiobutton, kat-option, kat-dropdown { display: inline-block; cursor: pointer; padding: 4px 8px; }
+    .kat-radiobutton-icon { display: inline-block; width: 12px; height: 12px; border: 1px solid #555; border-radius: 50%; margin-right: 4px; }
+    .selected > .kat-radiobutton-icon, kat-radiobutton.selected .kat-radiobutton-icon { background: #0495F6; }
+    div[part="dropdown-header"] { display: inline-block; border: 1px solid #999; padding: 4px 12px; cursor: pointer; min-width: 160px; }
+    [role="listbox"] { border: 1px solid #ccc; }
+    [role="option"] { padding: 4px 12px; cursor: pointer; }
+    .field { margin: 12px 0; }
+    .hidden { display: none !important; }
+    .modal { border: 2px solid #333; padding: 16px; margin: 16px 0; }
+    .error { color: #b00; }
+    table { border-collapse: collapse; }
+    th, td { border: 1px solid #ccc; padding: 4px 8px; }
+`;
+
+function page(title: string, body: string, script = ''): string {
+    return `<!DOCTYPE html>
+<html>
+<head><title>${title}</title><style>${STYLES}</style></head>
+<body>
+<h1>${title}</h1>
+${body}
+<script>
+async function post(url, data) {
+    const response = await fetch(url, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(data) });
+    const result = await response.json();
+    if (!response.ok) {
+        document.getElementById('error').textContent = result.error;
+        throw new Error(result.error);
+    }
+    return result;
+}
+${script}
+</script>
+</body>
+</html>`;
+}
+
+function escapeHtml(value: unknown): string {
+    return String(value ?? '').replace(/[&<>"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function randomCode(length: number): string {
+    const alphabet = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+    return Array.from({ length }, () => alphabet[Math.floor(Math.random() * alphabet.length)]).join('');
+}
+
+// Stable made-up competing offers per ASIN, so repeated runs see the same market
+function fakeMarket(asin: string) {
+    const seed = Array.from(asin).reduce((sum, char) => sum + char.charCodeAt(0), 0);
+    const lowestUsed = 5 + (seed % 20) + 0.49;
+    return {
+        buyBox: lowestUsed + 6,
+        lowestNew: lowestUsed + 8.5,
+        lowestUsed,
+        offers: 2 + (seed % 9)
+    };
+}
+
+function readCookie(req: express.Request, name: string): string | undefined {
+    return (req.headers.cookie ?? '')
+        .split(';')
+        .map(part => part.trim().split('='))
+        .find(([key]) => key === name)?.[1];
+}
+
+function paginationControls(basePath: string, pageNumber: number, pageCount: number, query = ''): string {
+    const link = (target: number) => `location.href='${basePath}?page=${target}${query}'`;
+    return `<div class="pagination">
+        <button ${pageNumber <= 1 ? 'disabled' : ''} onclick="${link(pageNumber - 1)}">Previous</button>
+        <span>Page ${pageNumber} of ${Math.max(pageCount, 1)}</span>
+        <button ${pageNumber >= pageCount ? 'disabled' : ''} onclick="${link(pageNumber + 1)}">Next</button>
+    </div>`;
+}
+
+function seedOrders(): FakeOrder[] {
+    const now = Date.now();
+    return Array.from({ length: 25 }, (_, index) => ({
+        orderId: `111-${String(4000000 + index).padStart(7, '0')}-${String(1000000 + index * 37).padStart(7, '0')}`,
+        orderDate: new Date(now - index * 26 * 60 * 60 * 1000),
+        sku: `SIM-SKU-${(index % 5) + 1}`,
+        asin: `B0SIM0000${(index % 5) + 1}`,
+        quantity: (index % 3) + 1,
+        itemPrice: 9.99 + index,
+        fulfillmentChannel: index % 4 === 0 ? 'Seller' : 'Amazon',
+        status: index < 3 ? 'Pending' : 'Shipped'
+    }));
+}
+
+function seedListings(): Map<string, FakeListing> {
+    const listings = new Map<string, FakeListing>();
+    for (let index = 1; index <= 5; index++) {
+        listings.set(`SIM-SKU-${index}`, {
+            sku: `SIM-SKU-${index}`,
+            asin: `B0SIM0000${index}`,
+            price: 10 + index,
+            condition: CONDITIONS[index % CONDITIONS.length],
+            fnsku: `X0SIM0000${index}`,
+            prepCategory: 'NONE',
+            createdAt: new Date().toISOString()
+        });
+    }
+    return listings;
+}
+
+export function startFakeSellerCentral(port: number): Promise<FakeSellerCentral> {
+    const sessions = new Set<string>();
+    let listings = seedListings();
+    let orders = seedOrders();
+    let dangerousGoodsAnswered = new Set<string>();
+
+    const server = express();
+    server.use(express.json());
+    server.use(express.urlencoded({ extended: false }));
+
+    // Control endpoints used by tests; never behind the sign-in
+    server.get('/__simulator/state', (_req, res) => {
+        res.json({ sessions: sessions.size, listings: Array.from(listings.values()) });
+    });
+
+    server.post('/__simulator/reset', (_req, res) => {
+        sessions.clear();
+        listings = seedListings();
+        orders = seedOrders();
+        dangerousGoodsAnswered = new Set();
+        res.json({ success: true });
+    });
+
+    // Force the next request to bounce to sign-in, like an expired Amazon session
+    server.post('/__simulator/expire-sessions', (_req, res) => {
+        sessions.clear();
+        res.json({ success: true });
+    });
+
+    server.get('/ap/signin', (req, res) => {
+        const returnTo = typeof req.query.return_to === 'string' ? req.query.return_to : '/home';
+        res.send(page('Sign in', `
+            <form method="post" action="/ap/signin">
+                <input type="hidden" name="return_to" value="${escapeHtml(returnTo)}">
+                <div class="field"><label>Email <input type="email" name="email" aria-label="Email"></label></div>
+                <div class="field"><label>Password <input type="password" name="password" aria-label="Password"></label></div>
+                <button type="submit">Sign in</button>
+            </form>`));
+    });
+
+    // Any credentials are accepted
+    server.post('/ap/signin', (req, res) => {
+        const token = randomCode(24);
+        sessions.add(token);
+        res.setHeader('Set-Cookie', `${SESSION_COOKIE}=${token}; Path=/; HttpOnly`);
+        const returnTo = typeof req.body.return_to === 'string' && req.body.return_to.startsWith('/') ? req.body.return_to : '/home';
+        res.redirect(returnTo);
+    });
+
+    // Everything below requires a signed-in session
+    server.use((req, res, next) => {
+        const token = readCookie(req, SESSION_COOKIE);
+        if (token && sessions.has(token)) return next();
+        if (req.method !== 'GET') {
+            return res.status(401).json({ error: 'Session expired' });
+        }
+        res.redirect(`/ap/signin?return_to=${encodeURIComponent(req.originalUrl)}`);
+    });
+
+    server.get('/', (_req, res) => res.redirect('/home'));
+
+    server.get('/home', (_req, res) => {
+        res.send(page('Seller Central (simulated)', `
+            <ul>
+                <li><a href="/myinventory/inventory">Manage Inventory</a></li>
+                <li><a href="/orders-v3">Manage Orders</a></li>
+            </ul>`));
+    });
+
+    server.get('/abis/listing/syh/offer', (req, res) => {
+        const asin = escapeHtml(req.query.asin);
+        const market = fakeMarket(String(req.query.asin ?? ''));
+        const options = (values: string[]) => values
+            .map(value => `<div role="option" data-value="${value}">${value}</div>`)
+            .join('');
+        res.send(page(`Add an offer for ${asin}`, `
+            <input type="hidden" id="asin" value="${asin}">
+            ${asin.endsWith('R') ? `<kat-alert variant="warning">You need approval to list ASIN ${asin} in this brand</kat-alert>` : ''}
+            ${asin.endsWith('D') ? '<div>This product may be regulated as a dangerous good (hazmat)</div>' : ''}
+            ${asin.endsWith('M') ? `<a href="#">Data is missing for ASIN ${asin}</a>` : ''}
+            <div class="field">
+                <div><span>Buy Box price</span> <span>$${market.buyBox.toFixed(2)}</span></div>
+                <div><span>Lowest New price</span> <span>$${market.lowestNew.toFixed(2)}</span></div>
+                <div><span>Lowest Used price</span> <span>$${market.lowestUsed.toFixed(2)}</span></div>
+                <div>${market.offers} offers</div>
+            </div>
+            <div class="field">
+                <kat-radiobutton name="attribute_filter_radio_buttons-required" class="selected"><span class="kat-radiobutton-icon"></span>Required</kat-radiobutton>
+                <kat-radiobutton name="attribute_filter_radio_buttons-all"><span class="kat-radiobutton-icon"></span>All attributes</kat-radiobutton>
+            </div>
+            <div class="field"><label>Seller SKU <input type="text" id="sku" aria-label="Seller SKU"></label></div>
+            <div class="field"><label>Your Price <input type="text" id="price" aria-label="Your Price"></label></div>
+            <div class="field optional hidden"><label>List Price <input type="text" id="listPrice" aria-label="List Price"></label></div>
+            <div class="field">
+                Quantity type <div part="dropdown-header" data-dropdown="quantity">Individual</div>
+                <div role="listbox" class="hidden" data-listbox="quantity">${options(['Individual'])}</div>
+            </div>
+            <div class="field">
+                Condition <div part="dropdown-header" data-dropdown="condition">Select</div>
+                <div role="listbox" class="hidden" data-listbox="condition">${options(CONDITIONS)}</div>
+            </div>
+            <div class="field optional hidden"><label>Condition Note <textarea id="conditionNotes" aria-label="Condition Note"></textarea></label></div>
+            <div class="field">
+                Fulfillment channel
+                <kat-radiobutton id="offerFulfillment-MFN" value="MFN" class="selected"><span class="kat-radiobutton-icon"></span>I will ship this item myself</kat-radiobutton>
+                <kat-radiobutton id="offerFulfillment-AFN" value="AFN"><span class="kat-radiobutton-icon"></span>Amazon will ship and provide customer service</kat-radiobutton>
+            </div>
+            <p id="error" class="error"></p>
+            <button id="save">Save and finish</button>`, `
+            const selected = { quantity: 'Individual', condition: '', fulfillment: 'MFN' };
+            document.querySelector('[name="attribute_filter_radio_buttons-all"]').addEventListener('click', event => {
+                event.currentTarget.classList.add('selected');
+                document.querySelectorAll('.optional').forEach(field => field.classList.remove('hidden'));
+            });
+            document.querySelectorAll('[part="dropdown-header"]').forEach(header => {
+                header.addEventListener('click', () => {
+                    document.querySelector('[data-listbox="' + header.dataset.dropdown + '"]').classList.toggle('hidden');
+                });
+            });
+            document.querySelectorAll('[role="listbox"]').forEach(listbox => {
+                listbox.querySelectorAll('[role="option"]').forEach(option => {
+                    option.addEventListener('click', () => {
+                        const name = listbox.dataset.listbox;
+                        selected[name] = option.dataset.value;
+                        document.querySelector('[data-dropdown="' + name + '"]').textContent = option.dataset.value;
+                        listbox.classList.add('hidden');
+                    });
+                });
+            });
+            document.querySelectorAll('[id^="offerFulfillment-"]').forEach(radio => {
+                radio.addEventListener('click', () => {
+                    document.querySelectorAll('[id^="offerFulfillment-"]').forEach(other => other.classList.remove('selected'));
+                    radio.classList.add('selected');
+                    selected.fulfillment = radio.getAttribute('value');
+                });
+            });
+            document.getElementById('save').addEventListener('click', async () => {
+                const result = await post('/abis/listing/syh/offer', {
+                    asin: document.getElementById('asin').value,
+                    sku: document.getElementById('sku').value,
+                    price: document.getElementById('price').value,
+                    listPrice: document.getElementById('listPrice').value,
+                    condition: selected.condition,
+                    conditionNotes: document.getElementById('conditionNotes').value,
+                    fulfillment: selected.fulfillment
+                });
+                location.href = result.next;
+            });`));
+    });
+
+    server.post('/abis/listing/syh/offer', (req, res) => {
+        const { asin, sku, price, listPrice, condition, conditionNotes, fulfillment } = req.body;
+        if (!sku || !(Number(price) > 0)) {
+            return res.status(400).json({ error: 'Seller SKU and a valid price are required' });
+        }
+        if (!CONDITIONS.includes(condition)) {
+            return res.status(400).json({ error: 'Select a condition' });
+        }
+        if (listings.has(sku)) {
+            return res.status(409).json({ error: `SKU ${sku} already exists` });
+        }
+        if (String(asin).endsWith('R')) {
+            return res.status(403).json({ error: `You need approval to list ASIN ${asin} in this brand` });
+        }
+
+        listings.set(sku, {
+            sku,
+            asin,
+            price: Number(price),
+            listPrice: listPrice ? Number(listPrice) : undefined,
+            condition,
+            conditionNotes: conditionNotes || undefined,
+            createdAt: new Date().toISOString()
+        });
+        // Merchant-fulfilled offers don't go through Convert and Send
+        const next = fulfillment === 'AFN' ? `/fba/convert?sku=${encodeURIComponent(sku)}` : '/myinventory/inventory';
+        res.json({ next });
+    });
+
+    server.get('/fba/convert', (req, res) => {
+        const listing = listings.get(String(req.query.sku));
+        if (!listing) return res.status(404).send(page('Not found', 'Unknown SKU'));
+
+        const needsDangerousGoods = listing.asin.endsWith('D');
+        const question = (name: string, text: string) => `
+            <div class="field">${text}
+                <div><kat-radiobutton data-question="${name}" data-answer="yes"><span class="kat-radiobutton-icon"></span>Yes</kat-radiobutton><kat-radiobutton data-question="${name}" data-answer="no"><span class="kat-radiobutton-icon"></span>No</kat-radiobutton></div>
+            </div>`;
+        res.send(page(`Convert ${escapeHtml(listing.sku)} to Fulfilled by Amazon`, `
+            ${needsDangerousGoods ? `
+            <div data-testid="dgq-button-link"><a href="#" id="dgq-open">Provide dangerous goods information</a></div>
+            <div id="dgq-modal" class="modal hidden">
+                ${question('battery', 'Does this product contain batteries?')}
+                ${question('hazmat', 'Is this product a regulated dangerous good?')}
+                <button id="dgq-submit">Submit</button>
+            </div>` : ''}
+            <p id="error" class="error"></p>
+            <button data-testid="${CONVERT_AND_SEND_TEST_ID}">Convert and send inventory</button>`, `
+            const answers = {};
+            const dgqOpen = document.getElementById('dgq-open');
+            if (dgqOpen) {
+                dgqOpen.addEventListener('click', event => {
+                    event.preventDefault();
+                    document.getElementById('dgq-modal').classList.remove('hidden');
+                });
+                document.querySelectorAll('[data-question]').forEach(radio => {
+                    radio.addEventListener('click', () => {
+                        document.querySelectorAll('[data-question="' + radio.dataset.question + '"]').forEach(other => other.classList.remove('selected'));
+                        radio.classList.add('selected');
+                        answers[radio.dataset.question] = radio.dataset.answer;
+                    });
+                });
+                document.getElementById('dgq-submit').addEventListener('click', async () => {
+                    await post('/fba/dangerous-goods', { sku: ${JSON.stringify(listing.sku)}, answers });
+                    document.getElementById('dgq-modal').classList.add('hidden');
+                });
+            }
+            document.querySelector('[data-testid="${CONVERT_AND_SEND_TEST_ID}"]').addEventListener('click', async () => {
+                const result = await post('/fba/convert', { sku: ${JSON.stringify(listing.sku)} });
+                location.href = result.next;
+            });`));
+    });
+
+    server.post('/fba/dangerous-goods', (req, res) => {
+        const { sku, answers } = req.body;
+        if (!answers?.battery || !answers?.hazmat) {
+            return res.status(400).json({ error: 'Answer every dangerous goods question' });
+        }
+        dangerousGoodsAnswered.add(sku);
+        res.json({ success: true });
+    });
+
+    server.post('/fba/convert', (req, res) => {
+        const listing = listings.get(req.body.sku);
+        if (!listing) return res.status(404).json({ error: 'Unknown SKU' });
+        if (listing.asin.endsWith('D') && !dangerousGoodsAnswered.has(listing.sku)) {
+            return res.status(400).json({ error: 'Dangerous goods information is required' });
+        }
+        listing.fnsku = listing.fnsku ?? `X0${randomCode(8)}`;
+        res.json({ next: `/fba/sku/${encodeURIComponent(listing.sku)}` });
+    });
+
+    server.get('/fba/sku/:sku', (req, res) => {
+        const listing = listings.get(req.params.sku);
+        if (!listing?.fnsku) return res.status(404).send(page('Not found', 'Unknown SKU'));
+
+        const needsDimensions = listing.asin.endsWith('M') && !listing.dimensions;
+        const dimension = (id: number, label: string) =>
+            `<div class="field"><label>${label} <input type="text" id="katal-id-${id}" aria-label="${label}"></label></div>`;
+        res.send(page(`Send ${escapeHtml(listing.sku)} to Amazon`, `
+            <p>FNSKU: <span data-testid="fnsku">${listing.fnsku}</span></p>
+            <div data-testid="sku-action-info-prep-missing-link"><a href="#" id="prep-open">Prep information missing</a></div>
+            <div id="prep-modal" class="modal hidden">
+                <kat-dropdown data-testid="prep-guidance-prep-category-dropdown">Choose prep category</kat-dropdown>
+                <div id="prep-options" class="hidden">
+                    <kat-option value="NONE">No prep needed</kat-option>
+                    <kat-option value="FRAGILE">Fragile/glass</kat-option>
+                </div>
+                <button id="prep-save">Save</button>
+            </div>
+            <div id="missing-dimensions" class="hidden"><a href="#" id="dimensions-open">Data is missing for ASIN ${escapeHtml(listing.asin)}</a></div>
+            <div id="dimensions-modal" class="modal hidden">
+                ${dimension(181, 'Length')}
+                ${dimension(182, 'Width')}
+                ${dimension(183, 'Height')}
+                ${dimension(184, 'Weight')}
+                <button data-testid="save-dimensions-button">Apply</button>
+            </div>
+            <div id="dimensions-confirm" class="hidden"><button id="dimensions-save">Save</button></div>
+            <p id="error" class="error"></p>
+            <p id="done" class="hidden">Shipment details saved</p>`, `
+            let prepCategory = '';
+            let dimensions = {};
+            const show = id => document.getElementById(id).classList.remove('hidden');
+            const hide = id => document.getElementById(id).classList.add('hidden');
+            document.getElementById('prep-open').addEventListener('click', event => {
+                event.preventDefault();
+                show('prep-modal');
+            });
+            document.querySelector('[data-testid="prep-guidance-prep-category-dropdown"]').addEventListener('click', () => show('prep-options'));
+            document.querySelectorAll('kat-option').forEach(option => {
+                option.addEventListener('click', () => {
+                    prepCategory = option.getAttribute('value');
+                    document.querySelector('[data-testid="prep-guidance-prep-category-dropdown"]').textContent = option.textContent;
+                    hide('prep-options');
+                });
+            });
+            document.getElementById('prep-save').addEventListener('click', async () => {
+                await post('/fba/prep', { sku: ${JSON.stringify(listing.sku)}, prepCategory });
+                hide('prep-modal');
+                hide('prep-open');
+                ${needsDimensions ? "show('missing-dimensions');" : "show('done');"}
+            });
+            document.getElementById('dimensions-open').addEventListener('click', event => {
+                event.preventDefault();
+                show('dimensions-modal');
+            });
+            document.querySelector('[data-testid="save-dimensions-button"]').addEventListener('click', () => {
+                dimensions = {
+                    length: document.getElementById('katal-id-181').value,
+                    width: document.getElementById('katal-id-182').value,
+                    height: document.getElementById('katal-id-183').value,
+                    weight: document.getElementById('katal-id-184').value
+                };
+                hide('dimensions-modal');
+                hide('missing-dimensions');
+                show('dimensions-confirm');
+            });
+            document.getElementById('dimensions-save').addEventListener('click', async () => {
+                await post('/fba/dimensions', { sku: ${JSON.stringify(listing.sku)}, dimensions });
+                hide('dimensions-confirm');
+                show('done');
+            });`));
+    });
+
+    server.post('/fba/prep', (req, res) => {
+        const listing = listings.get(req.body.sku);
+        if (!listing) return res.status(404).json({ error: 'Unknown SKU' });
+        if (!req.body.prepCategory) {
+            return res.status(400).json({ error: 'Choose a prep category' });
+        }
+        listing.prepCategory = req.body.prepCategory;
+        res.json({ success: true });
+    });
+
+    server.post('/fba/dimensions', (req, res) => {
+        const listing = listings.get(req.body.sku);
+        if (!listing) return res.status(404).json({ error: 'Unknown SKU' });
+        const dimensions = req.body.dimensions ?? {};
+        const missing = ['length', 'width', 'height', 'weight'].filter(field => !(Number(dimensions[field]) > 0));
+        if (missing.length > 0) {
+            return res.status(400).json({ error: `Missing dimensions: ${missing.join(', ')}` });
+        }
+        listing.dimensions = dimensions;
+        res.json({ success: true });
+    });
+
+    server.get('/myinventory/inventory', (req, res) => {
+        const rows = Array.from(listings.values());
+        const pageCount = Math.ceil(rows.length / TABLE_PAGE_SIZE);
+        const pageNumber = Math.min(Math.max(Number(req.query.page) || 1, 1), Math.max(pageCount, 1));
+        const pageRows = rows.slice((pageNumber - 1) * TABLE_PAGE_SIZE, pageNumber * TABLE_PAGE_SIZE);
+
+        res.send(page('Manage All Inventory', `
+            <table>
+                <thead><tr><th>Status</th><th>SKU</th><th>ASIN</th><th>FNSKU</th><th>Condition</th><th>Price</th><th>Available</th><th>Inbound</th></tr></thead>
+                <tbody>${pageRows.map(listing => `<tr>
+                    <td>${listing.fnsku ? 'Active' : 'Inactive'}</td>
+                    <td>${escapeHtml(listing.sku)}</td>
+                    <td>${escapeHtml(listing.asin)}</td>
+                    <td>${escapeHtml(listing.fnsku)}</td>
+                    <td>${escapeHtml(listing.condition)}</td>
+                    <td>$${listing.price.toFixed(2)}</td>
+                    <td>0</td>
+                    <td>${listing.fnsku ? 1 : 0}</td>
+                </tr>`).join('')}</tbody>
+            </table>
+            ${paginationControls('/myinventory/inventory', pageNumber, pageCount)}`));
+    });
+
+    server.get('/orders-v3', (req, res) => {
+        // date-range is "<fromMillis>-<toMillis>", as on the real page
+        const [from, to] = String(req.query['date-range'] ?? '').split('-').map(Number);
+        const rows = orders.filter(order =>
+            (!from || order.orderDate.getTime() >= from) && (!to || order.orderDate.getTime() <= to)
+        );
+        const pageCount = Math.ceil(rows.length / TABLE_PAGE_SIZE);
+        const pageNumber = Math.min(Math.max(Number(req.query.page) || 1, 1), Math.max(pageCount, 1));
+        const pageRows = rows.slice((pageNumber - 1) * TABLE_PAGE_SIZE, pageNumber * TABLE_PAGE_SIZE);
+        const dateRange = req.query['date-range'] ? `&date-range=${encodeURIComponent(String(req.query['date-range']))}` : '';
+
+        res.send(page('Manage Orders', `
+            <table>
+                <thead><tr><th>Order date</th><th>Order ID</th><th>ASIN</th><th>SKU</th><th>Quantity</th><th>Item price</th><th>Fulfillment channel</th><th>Order status</th></tr></thead>
+                <tbody>${pageRows.map(order => `<tr>
+                    <td>${order.orderDate.toISOString()}</td>
+                    <td>${order.orderId}</td>
+                    <td>${order.asin}</td>
+                    <td>${order.sku}</td>
+                    <td>${order.quantity}</td>
+                    <td>$${order.itemPrice.toFixed(2)}</td>
+                    <td>${order.fulfillmentChannel}</td>
+                    <td>${order.status}</td>
+                </tr>`).join('')}</tbody>
+            </table>
+            ${paginationControls('/orders-v3', pageNumber, pageCount, dateRange)}`));
+    });
+
+    return new Promise((resolve, reject) => {
+        const httpServer: Server = server.listen(port, '127.0.0.1', () => {
+            const { port: boundPort } = httpServer.address() as AddressInfo;
+            console.log(`Fake Seller Central running on port ${boundPort}`);
+            resolve({
+                url: `http://127.0.0.1:${boundPort}`,
+                close: () => new Promise(done => httpServer.close(() => done()))
+            });
+        });
+        httpServer.on('error', reject);
+    });
+}
@@ -0,0 +1,103 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { IdempotencyStore, getIdempotencyKey } from './idempotencyStore.js';
+
+const listing = (params: AutomationRequest['params'], extra: Partial<AutomationRequest> = {}): AutomationRequest =>
+    ({ type: 'createListing', params, ...extra });
+
+describe('getIdempotencyKey', () => {
+    const live = { simulationMode: false, activeProfile: 'default' };
+
+    it('defaults listings to their SKU', () => {
+        expect(getIdempotencyKey(listing({ sku: 'SKU-1' }), live)).toBe('SKU-1');
+        expect(getIdempotencyKey(listing({ sku: 'SKU-1' }, { idempotencyKey: 'order-42' }), live)).toBe('order-42');
+    });
+
+    it('gives dry runs and other automations a key only when the caller sends one', () => {
+        expect(getIdempotencyKey(listing({ sku: 'SKU-1' }, { dryRun: true }), live)).toBeUndefined();
+        expect(getIdempotencyKey(listing({ sku: 'SKU-1' }, { dryRun: true, idempotencyKey: 'preview-1' }), live)).toBe('preview-1');
+        expect(getIdempotencyKey({ type: 'inventory' }, live)).toBeUndefined();
+        expect(getIdempotencyKey(listing({}), live)).toBeUndefined();
+    });
+
+    it('keeps profiles apart, leaving the default profile unprefixed', () => {
+        expect(getIdempotencyKey(listing({ sku: 'SKU-1' }), { ...live, activeProfile: 'ca' })).toBe('ca:SKU-1');
+        expect(getIdempotencyKey(listing({ sku: 'SKU-1' }, { profile: 'uk' }), { ...live, activeProfile: 'ca' })).toBe('uk:SKU-1');
+        expect(getIdempotencyKey(listing({ sku: 'SKU-1' }, { profile: 'default' }), { ...live, activeProfile: 'ca' })).toBe('SKU-1');
+    });
+
+    it('keeps simulated runs apart from live ones', () => {
+        expect(getIdempotencyKey(listing({ sku: 'SKU-1' }), { ...live, simulationMode: true })).toBe('simulation:SKU-1');
+    });
+});
+
+describe('IdempotencyStore', () => {
+    let profilesPath: string;
+    let filePath: string;
+
+    beforeEach(async () => {
+        profilesPath = await fs.mkdtemp(path.join(os.tmpdir(), 'idempotency-store-'));
+        filePath = path.join(profilesPath, 'idempotency-keys.json');
+    });
+
+    afterEach(async () => {
+        await fs.rm(profilesPath, { recursive: true, force: true });
+    });
+
+    // Writes are queued in the background; wait until the file holds `keys`
+    const waitForKeys = (keys: string[]) => vi.waitFor(async () => {
+        const saved = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+        expect(Object.keys(saved).sort()).toEqual(keys);
+    });
+
+    it('points keys at automations and survives a restart', async () => {
+        const store = new IdempotencyStore(profilesPath);
+        await store.load();
+        store.claim('SKU-1', 'automation-1');
+        store.claim('SKU-2', 'automation-2');
+        store.claim('SKU-1', 'automation-3');
+        await waitForKeys(['SKU-1', 'SKU-2']);
+
+        const reloaded = new IdempotencyStore(profilesPath);
+        await reloaded.load();
+        expect(reloaded.get('SKU-1')?.automationId).toBe('automation-3');
+        expect(reloaded.findByAutomationId('automation-2')).toMatchObject({ automationId: 'automation-2' });
+        expect(reloaded.findByAutomationId('automation-1')).toBeUndefined();
+        expect(await fs.readdir(profilesPath)).toEqual(['idempotency-keys.json']);
+    });
+
+    it('keeps the final result only for the automation the key still points at', async () => {
+        const store = new IdempotencyStore(profilesPath);
+        await store.load();
+        store.claim('SKU-1', 'automation-1');
+        store.claim('SKU-1', 'automation-2');
+
+        store.recordResult('SKU-1', 'automation-1', { error: 'Login timed out' });
+        expect(store.get('SKU-1')?.result).toBeUndefined();
+
+        store.recordResult('SKU-1', 'automation-2', { fnsku: 'X001' });
+        expect(store.findByAutomationId('automation-2')?.result).toEqual({ fnsku: 'X001' });
+        await waitForKeys(['SKU-1']);
+    });
+
+    it('forgets keys older than 90 days when loading', async () => {
+        const daysAgo = (days: number) => new Date(Date.now() - days * 24 * 60 * 60 * 1000).toISOString();
+        await fs.writeFile(filePath, JSON.stringify({
+            recent: { automationId: 'automation-1', createdAt: daysAgo(89) },
+            expired: { automationId: 'automation-2', createdAt: daysAgo(91) }
+        }));
+
+        const store = new IdempotencyStore(profilesPath);
+        await store.load();
+        expect(store.get('recent')).toBeDefined();
+        expect(store.get('expired')).toBeUndefined();
+    });
+
+    it('starts empty without a saved file', async () => {
+        const store = new IdempotencyStore(profilesPath);
+        await store.load();
+        expect(store.get('SKU-1')).toBeUndefined();
+    });
+});
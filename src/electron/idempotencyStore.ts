@@ -0,0 +1,110 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { DEFAULT_PROFILE } from './sellerProfiles.js';
+
+// Keys older than this are forgotten, as are the oldest keys beyond MAX_KEYS
+const KEY_TTL = 1000 * 60 * 60 * 24 * 90; // 90 days
+const MAX_KEYS = 20000;
+
+export type IdempotencyRecord = {
+    automationId: string;
+    createdAt: string;
+    // Final result, kept here because job records are pruned sooner than keys
+    result?: AutomationResult;
+};
+
+/**
+ * Listing requests default to their SKU as idempotency key; dry runs never create an
+ * offer, so they only get one when the caller asks. Simulated and live runs never share
+ * keys, and neither do profiles (the default profile keeps the unprefixed keys it always had).
+ */
+export function getIdempotencyKey(
+    request: AutomationRequest,
+    settings: Pick<AutomationSettings, 'simulationMode' | 'activeProfile'>
+): string | undefined {
+    let key = request.idempotencyKey
+        ?? (request.type === 'createListing' && !request.dryRun ? request.params?.sku : undefined);
+    if (!key) return undefined;
+    const profileName = request.profile ?? settings.activeProfile;
+    if (profileName !== DEFAULT_PROFILE.name) key = `${profileName}:${key}`;
+    return settings.simulationMode ? `simulation:${key}` : key;
+}
+
+/**
+ * Durable map of idempotency keys to the automation they started, so a client that
+ * repeats a request (e.g. after a timeout) gets the original automation instead of a
+ * second offer. Stored in `profiles/idempotency-keys.json`, written atomically.
+ *
+ * `claim` is synchronous once loaded, so two concurrent requests with the same key
+ * can't both start an automation.
+ */
+export class IdempotencyStore {
+    private records: Map<string, IdempotencyRecord> = new Map();
+    private writeQueue: Promise<void> = Promise.resolve();
+    private filePath: string;
+
+    constructor(profilesPath: string) {
+        this.filePath = path.join(profilesPath, 'idempotency-keys.json');
+    }
+
+    async load() {
+        try {
+            const saved = JSON.parse(await fs.readFile(this.filePath, 'utf-8')) as Record<string, IdempotencyRecord>;
+            this.records = new Map(Object.entries(saved));
+            this.prune();
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                console.error('Failed to read idempotency keys:', error);
+            }
+        }
+    }
+
+    get(key: string): IdempotencyRecord | undefined {
+        return this.records.get(key);
+    }
+
+    findByAutomationId(automationId: string): IdempotencyRecord | undefined {
+        for (const record of this.records.values()) {
+            if (record.automationId === automationId) return record;
+        }
+        return undefined;
+    }
+
+    // Point the key at a (new) automation
+    claim(key: string, automationId: string) {
+        this.records.set(key, { automationId, createdAt: new Date().toISOString() });
+        this.prune();
+        this.persist();
+    }
+
+    recordResult(key: string, automationId: string, result: AutomationResult) {
+        const record = this.records.get(key);
+        // The key may have moved on to a newer automation in the meantime
+        if (record?.automationId !== automationId) return;
+        this.records.set(key, { ...record, result });
+        this.persist();
+    }
+
+    private persist() {
+        const snapshot = JSON.stringify(Object.fromEntries(this.records), null, 2);
+        const tempPath = `${this.filePath}.tmp`;
+
+        // Serialize writes so an older snapshot never overwrites a newer one
+        this.writeQueue = this.writeQueue.then(async () => {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            await fs.writeFile(tempPath, snapshot);
+            await fs.rename(tempPath, this.filePath);
+        }).catch(error => {
+            console.error('Failed to persist idempotency keys:', error);
+        });
+    }
+
+    private prune() {
+        const cutoff = new Date(Date.now() - KEY_TTL).toISOString();
+        const records = Array.from(this.records.entries())
+            .filter(([, record]) => record.createdAt >= cutoff)
+            .sort(([, a], [, b]) => b.createdAt.localeCompare(a.createdAt))
+            .slice(0, MAX_KEYS);
+        this.records = new Map(records);
+    }
+}
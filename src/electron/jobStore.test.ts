@@ -0,0 +1,101 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { JobStore } from './jobStore.js';
+
+const request: AutomationRequest = { type: 'inventory' };
+
+// A job record as it would be on disk, created `minutesAgo` minutes before now
+function jobRecord(id: string, state: AutomationJobState, minutesAgo: number): AutomationJob {
+    const timestamp = new Date(Date.now() - minutesAgo * 60000).toISOString();
+    return { id, request, state, createdAt: timestamp, updatedAt: timestamp, attempts: 0 };
+}
+
+describe('JobStore', () => {
+    let profilesPath: string;
+    let jobsPath: string;
+
+    beforeEach(async () => {
+        profilesPath = await fs.mkdtemp(path.join(os.tmpdir(), 'job-store-'));
+        jobsPath = path.join(profilesPath, 'jobs');
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await fs.rm(profilesPath, { recursive: true, force: true });
+    });
+
+    const writeJobs = async (jobs: AutomationJob[]) => {
+        await fs.mkdir(jobsPath, { recursive: true });
+        await Promise.all(jobs.map(job => fs.writeFile(path.join(jobsPath, `${job.id}.json`), JSON.stringify(job))));
+    };
+
+    it('persists created and updated jobs without leaving temp files', async () => {
+        const store = new JobStore(profilesPath);
+        await store.load();
+
+        const created = await store.create('job-1', request);
+        expect(created).toMatchObject({ id: 'job-1', state: 'queued', attempts: 0 });
+
+        const updated = await store.update('job-1', { state: 'succeeded', attempts: 1, result: { fnsku: 'X001' } });
+        expect(updated).toMatchObject({ state: 'succeeded', attempts: 1, createdAt: created.createdAt });
+
+        expect(await fs.readdir(jobsPath)).toEqual(['job-1.json']);
+        expect(JSON.parse(await fs.readFile(path.join(jobsPath, 'job-1.json'), 'utf-8'))).toEqual(updated);
+    });
+
+    it('ignores updates for unknown jobs', async () => {
+        const store = new JobStore(profilesPath);
+        await store.load();
+
+        expect(await store.update('setup-session', { state: 'running' })).toBeUndefined();
+        expect(await fs.readdir(jobsPath)).toEqual([]);
+    });
+
+    it('loads saved jobs and drops temp files and unreadable records', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => {});
+        await writeJobs([jobRecord('job-1', 'succeeded', 2)]);
+        await fs.writeFile(path.join(jobsPath, 'job-2.json.tmp'), '{"id":"job-2"');
+        await fs.writeFile(path.join(jobsPath, 'job-3.json'), 'not json');
+
+        const jobs = await new JobStore(profilesPath).load();
+
+        expect(jobs.map(job => job.id)).toEqual(['job-1']);
+        expect((await fs.readdir(jobsPath)).sort()).toEqual(['job-1.json', 'job-3.json']);
+    });
+
+    it('resumes queued and running jobs oldest first', async () => {
+        await writeJobs([
+            jobRecord('newest', 'queued', 1),
+            jobRecord('finished', 'failed', 2),
+            jobRecord('oldest', 'running', 3)
+        ]);
+        const store = new JobStore(profilesPath);
+        await store.load();
+
+        expect(store.list().map(job => job.id)).toEqual(['newest', 'finished', 'oldest']);
+        expect(store.getUnfinished().map(job => job.id)).toEqual(['oldest', 'newest']);
+    });
+
+    it('keeps the newest 1000 finished jobs and every unfinished one', async () => {
+        const finished = Array.from({ length: 1000 }, (_, i) => jobRecord(`finished-${i}`, 'succeeded', i + 1));
+        await writeJobs([...finished, jobRecord('stuck', 'running', 5000)]);
+        const store = new JobStore(profilesPath);
+        await store.load();
+
+        // Pruning runs when a job is created; the new job isn't finished yet
+        await store.create('new', request);
+        expect(store.list()).toHaveLength(1002);
+
+        await store.update('new', { state: 'succeeded' });
+        await store.create('newer', request);
+
+        expect(store.get('finished-999')).toBeUndefined();
+        expect(store.get('finished-998')).toBeDefined();
+        expect(store.get('stuck')).toBeDefined();
+        await vi.waitFor(async () => {
+            await expect(fs.access(path.join(jobsPath, 'finished-999.json'))).rejects.toThrow();
+        });
+    });
+});
@@ -0,0 +1,122 @@
+import path from 'path';
+import fs from 'fs/promises';
+
+// Maximum number of finished jobs kept on disk
+const MAX_FINISHED_JOBS = 1000;
+
+const UNFINISHED_STATES: AutomationJobState[] = ['queued', 'running'];
+
+/**
+ * Durable on-disk queue of automation jobs.
+ * Every job lives in its own JSON file under `profiles/jobs` and is written
+ * atomically (temp file + rename) so a crash never leaves a half-written record.
+ */
+export class JobStore {
+    private jobs: Map<string, AutomationJob> = new Map();
+    private writeQueue: Promise<void> = Promise.resolve();
+    private jobsPath: string;
+
+    constructor(profilesPath: string) {
+        this.jobsPath = path.join(profilesPath, 'jobs');
+    }
+
+    // Load every persisted job from disk into memory
+    async load(): Promise<AutomationJob[]> {
+        await fs.mkdir(this.jobsPath, { recursive: true });
+        const files = await fs.readdir(this.jobsPath);
+
+        for (const file of files) {
+            const filePath = path.join(this.jobsPath, file);
+
+            // Leftover temp files come from a write interrupted by a crash
+            if (file.endsWith('.tmp')) {
+                await fs.rm(filePath, { force: true });
+                continue;
+            }
+            if (!file.endsWith('.json')) continue;
+
+            try {
+                const job = JSON.parse(await fs.readFile(filePath, 'utf-8')) as AutomationJob;
+                this.jobs.set(job.id, job);
+            } catch (error) {
+                console.error(`Failed to read job file ${file}:`, error);
+            }
+        }
+
+        return this.list();
+    }
+
+    async create(id: string, request: AutomationRequest): Promise<AutomationJob> {
+        const now = new Date().toISOString();
+        const job: AutomationJob = {
+            id,
+            request,
+            state: 'queued',
+            createdAt: now,
+            updatedAt: now,
+            attempts: 0
+        };
+        this.jobs.set(id, job);
+        await this.persist(job);
+        this.prune();
+        return job;
+    }
+
+    // Merge an update into a job and persist it. Unknown ids (e.g. setup sessions) are ignored.
+    async update(id: string, update: Partial<Omit<AutomationJob, 'id' | 'createdAt'>>): Promise<AutomationJob | undefined> {
+        const existing = this.jobs.get(id);
+        if (!existing) return undefined;
+
+        const job: AutomationJob = {
+            ...existing,
+            ...update,
+            updatedAt: new Date().toISOString()
+        };
+        this.jobs.set(id, job);
+        await this.persist(job);
+        return job;
+    }
+
+    get(id: string): AutomationJob | undefined {
+        return this.jobs.get(id);
+    }
+
+    // All jobs, newest first
+    list(): AutomationJob[] {
+        return Array.from(this.jobs.values())
+            .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    }
+
+    // Queued or running jobs, oldest first so they resume in submission order
+    getUnfinished(): AutomationJob[] {
+        return this.list()
+            .filter(job => UNFINISHED_STATES.includes(job.state))
+            .reverse();
+    }
+
+    private persist(job: AutomationJob): Promise<void> {
+        const filePath = path.join(this.jobsPath, `${job.id}.json`);
+        const tempPath = `${filePath}.tmp`;
+
+        // Serialize writes so an older snapshot never overwrites a newer one
+        const write = this.writeQueue.then(async () => {
+            await fs.writeFile(tempPath, JSON.stringify(job, null, 2));
+            await fs.rename(tempPath, filePath);
+        });
+        this.writeQueue = write.catch(error => {
+            console.error(`Failed to persist job ${job.id}:`, error);
+        });
+        return write;
+    }
+
+    // Drop the oldest finished jobs beyond the retention limit
+    private prune() {
+        const finished = this.list().filter(job => !UNFINISHED_STATES.includes(job.state));
+        for (const job of finished.slice(MAX_FINISHED_JOBS)) {
+            this.jobs.delete(job.id);
+            fs.rm(path.join(this.jobsPath, `${job.id}.json`), { force: true }).catch(error => {
+                console.error(`Failed to remove job ${job.id}:`, error);
+            });
+        }
+    }
+}
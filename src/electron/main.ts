@@ -1,4 +1,4 @@
-import { app, BrowserWindow, ipcMain, Tray } from 'electron';
+import { app, BrowserWindow, ipcMain, Tray, dialog } from 'electron';
 import express from 'express';
 import { ipcMainOn, isDev, ipcMainHandle } from './util.js';
 import { pollResources, getStaticData } from './resourceManager.js';
@@ -13,7 +13,12 @@ import fs from 'fs';
 import { PrintManager } from './PrintManager.js';
 import { execPromise } from './util.js';
 import printerPkg from 'pdf-to-printer';
+import { subscribeAutomationEvents, emitAutomationEvent, getEventAutomationId } from './automationEvents.js';
+import { getTraceViewerPath } from './traces.js';
+import { PrintingError, classifyError, retryWithPolicy } from './automationErrors.js';
+import { parseRequestedPrice } from './pricingRules.js';
 const { print: windowsPrint } = printerPkg;
+const httpPort = process.env.PORT || 3456;
 // Commenting out Clerk for now
 // import { Clerk } from '@clerk/clerk-sdk-node';
 // const CLERK_SECRET_KEY = process.env.CLERK_SECRET_KEY;
@@ -105,6 +110,11 @@ app.on('ready', () => {
   // Create automation manager
   const automationManager = createAutomationManager(mainWindow);
 
+  // Close pooled browsers on quit
+  app.on('before-quit', () => {
+    automationManager.shutdown();
+  });
+
   // Set up IPC handlers
   setupIpcHandlers(automationManager, mainWindow);
 
@@ -155,16 +165,33 @@ app.on('ready', () => {
 
 function setupIpcHandlers(automationManager: ReturnType<typeof createAutomationManager>, mainWindow: BrowserWindow) {
   ipcMainHandle<'startAutomation'>("startAutomation", async (_event, request: AutomationRequest) => {
+    normalizeRequestPrice(request);
     const id = await automationManager.startAutomation(request);
     return id;
   });
 
-  ipcMainHandle<'getSetupStatus'>("getSetupStatus", async () => {
-    return await automationManager.getSetupStatus();
+  ipcMainHandle<'getSetupStatus'>("getSetupStatus", async (_event, profile?: string) => {
+    return await automationManager.getSetupStatus(profile);
+  });
+
+  ipcMainHandle<'checkSession'>("checkSession", async (_event, profile?: string) => {
+    return await automationManager.checkSessionNow(profile);
+  });
+
+  ipcMainHandle<'getCredentials'>("getCredentials", async (_event, profile?: string) => {
+    return await automationManager.getCredentials(profile);
+  });
+
+  ipcMainHandle<'saveCredentials'>("saveCredentials", async (_event, { credentials, profile }: { credentials: SellerCredentials; profile?: string }) => {
+    return await automationManager.setCredentials(credentials, profile);
   });
 
-  ipcMainHandle<'startSetup'>("startSetup", async () => {
-    return await automationManager.startSetup();
+  ipcMainHandle<'deleteCredentials'>("deleteCredentials", async (_event, profile?: string) => {
+    return await automationManager.deleteCredentials(profile);
+  });
+
+  ipcMainHandle<'startSetup'>("startSetup", async (_event, profile?: string) => {
+    return await automationManager.startSetup(profile);
   });
 
   ipcMainHandle<'completeSetup'>("completeSetup", async () => {
@@ -197,8 +224,69 @@ function setupIpcHandlers(automationManager: ReturnType<typeof createAutomationM
     }));
   });
 
-  ipcMainHandle<'getPrintSettings'>("getPrintSettings", async () => {
-    return automationManager.getPrintSettings();
+  ipcMainHandle<'getPrintSettings'>("getPrintSettings", async (_event, profile?: string) => {
+    return automationManager.getPrintSettings(profile);
+  });
+
+  ipcMainHandle<'getAutomationSettings'>("getAutomationSettings", async () => {
+    return automationManager.getAutomationSettings();
+  });
+
+  ipcMainHandle<'saveAutomationSettings'>("saveAutomationSettings", async (_event, settings: Partial<AutomationSettings>) => {
+    return await automationManager.updateAutomationSettings(settings);
+  });
+
+  ipcMainHandle<'cancelAutomation'>("cancelAutomation", async (_event, id: string) => {
+    return await automationManager.cancelAutomation(id);
+  });
+
+  ipcMainHandle<'pauseAutomation'>("pauseAutomation", async (_event, id: string) => {
+    return await automationManager.pauseAutomation(id);
+  });
+
+  ipcMainHandle<'resumeAutomation'>("resumeAutomation", async (_event, id: string) => {
+    return await automationManager.resumeAutomation(id);
+  });
+
+  ipcMainHandle<'retryAutomation'>("retryAutomation", async (_event, id: string) => {
+    return await automationManager.retryAutomation(id);
+  });
+
+  ipcMainHandle<'getArtifacts'>("getArtifacts", async (_event, id: string) => {
+    return await automationManager.getArtifacts(id);
+  });
+
+  ipcMainHandle<'listTraces'>("listTraces", async () => {
+    return await automationManager.listTraces();
+  });
+
+  ipcMainHandle<'openTrace'>("openTrace", async (_event, id: string) => {
+    if (!automationManager.getTracePath(id)) return false;
+    openTraceViewer(id);
+    return true;
+  });
+
+  ipcMainHandle<'setBrowserVisible'>("setBrowserVisible", async (_event, { id, visible }: { id: string; visible: boolean }) => {
+    return automationManager.setBrowserVisible(id, visible);
+  });
+
+  ipcMainHandle<'importBatch'>("importBatch", async (_event, { content, format }: { content: string; format: BatchImportFormat }) => {
+    return await automationManager.importBatch(content, format);
+  });
+
+  ipcMainHandle<'saveBatchReport'>("saveBatchReport", async (_event, batchId: string) => {
+    const csv = await automationManager.getBatchReportCsv(batchId);
+    if (!csv) return false;
+
+    const { canceled, filePath } = await dialog.showSaveDialog(mainWindow, {
+      title: 'Save Batch Report',
+      defaultPath: `batch-report-${batchId.slice(0, 8)}.csv`,
+      filters: [{ name: 'CSV', extensions: ['csv'] }]
+    });
+    if (canceled || !filePath) return false;
+
+    await fs.promises.writeFile(filePath, csv);
+    return true;
   });
 
   ipcMainHandle<'testPrint'>("testPrint", async (_event, settings: PrintSettings) => {
@@ -267,6 +355,37 @@ function setupIpcHandlers(automationManager: ReturnType<typeof createAutomationM
   });
 }
 
+// Playwright's trace viewer, served by the HTTP server, in its own window
+function openTraceViewer(id: string) {
+  const baseUrl = `http://localhost:${httpPort}`;
+  const traceUrl = `${baseUrl}/automation/${encodeURIComponent(id)}/trace.zip`;
+  const viewer = new BrowserWindow({
+    width: 1400,
+    height: 900,
+    title: `Trace ${id}`
+  });
+  viewer.loadURL(`${baseUrl}/trace/index.html?trace=${encodeURIComponent(traceUrl)}`);
+}
+
+// HTTP status for an automation that failed with a given error class
+const ERROR_CLASS_HTTP_STATUS: Record<AutomationErrorClass, number> = {
+  authentication: 401,
+  restrictedAsin: 403,
+  cancelled: 409,
+  validation: 422,
+  selectorTimeout: 502,
+  navigation: 502,
+  printing: 500,
+  unknown: 500
+};
+
+// Prices from HTTP and IPC clients may be strings; throws unless the price is a positive number
+function normalizeRequestPrice(request: AutomationRequest) {
+  if (request.params) {
+    request.params.price = parseRequestedPrice(request.params.price);
+  }
+}
+
 // Error handling utility with proper imports
 function getErrorMessage(error: unknown): string {
     if (error instanceof LabelGenerationError) {
@@ -283,13 +402,17 @@ function getErrorMessage(error: unknown): string {
 
 function setupHttpServer(automationManager: ReturnType<typeof createAutomationManager>) {
   const server = express();
-  server.use(express.json());
+  server.use(express.json({ limit: '5mb' }));
 
-  // Simple CORS middleware for testing
+  // Simple CORS middleware for testing. Artifacts, traces and previews show account data,
+  // so other origins don't get to read them.
+  const privateRoute = /^\/(automation\/[^/]+\/(artifacts|trace\.zip|preview\.png)|trace)(\/|$)/;
   server.use((req, res, next) => {
-    res.header("Access-Control-Allow-Origin", "*");
-    res.header("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-    res.header("Access-Control-Allow-Headers", "Content-Type");
+    if (!privateRoute.test(req.path)) {
+      res.header("Access-Control-Allow-Origin", "*");
+      res.header("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
+      res.header("Access-Control-Allow-Headers", "Content-Type, Idempotency-Key");
+    }
     next();
   });
 
@@ -305,7 +428,7 @@ function setupHttpServer(automationManager: ReturnType<typeof createAutomationMa
   // New endpoint for printing labels
   server.post('/print-label', async (req, res) => {
     try {
-      const { fnsku, sku, asin, title, condition, quantity = 1 } = req.body;
+      const { fnsku, sku, asin, title, condition, quantity = 1, profile } = req.body;
       
       console.log('\n=== Print Label Request ===');
       console.log('Request Details:', {
@@ -314,7 +437,8 @@ function setupHttpServer(automationManager: ReturnType<typeof createAutomationMa
         asin,
         title: title ? (title.length > 30 ? title.substring(0, 30) + '...' : title) : undefined,
         condition,
-        quantity
+        quantity,
+        profile
       });
       
       if (!fnsku || !sku || !asin) {
@@ -325,11 +449,16 @@ function setupHttpServer(automationManager: ReturnType<typeof createAutomationMa
         });
       }
 
-      // Get current print settings
-      const printSettings = automationManager.getPrintSettings();
+      if (profile && !await automationManager.hasProfile(profile)) {
+        return res.status(400).json({ success: false, error: `Unknown seller profile "${profile}"` });
+      }
+
+      // Get the print settings of the profile the label is for
+      const printSettings = automationManager.getPrintSettings(profile);
+      const printerName = automationManager.getPrinterName(profile);
       const mediaSize = getMediaSize(printSettings.labelSize, printSettings.customSize);
       console.log('Print Settings:', {
-        printer: automationManager.getPrinterName(),
+        printer: printerName,
         labelSize: printSettings.labelSize,
         mediaSize,
         quantity,
@@ -348,6 +477,7 @@ function setupHttpServer(automationManager: ReturnType<typeof createAutomationMa
       });
 
       console.log('Label generated at:', labelPath);
+      emitAutomationEvent('printJob', { status: 'started', fnsku, sku, asin, printer: printerName });
 
       // Platform-specific printing
       if (process.platform === 'win32') {
@@ -355,7 +485,7 @@ function setupHttpServer(automationManager: ReturnType<typeof createAutomationMa
         console.log('Using Windows printing system');
         
         const options = {
-          printer: automationManager.getPrinterName(),
+          printer: printerName,
           scale: "noscale",
          // paperSize: mediaSize,
           orientation: printSettings.orientation || "portrait",
@@ -379,7 +509,13 @@ function setupHttpServer(automationManager: ReturnType<typeof createAutomationMa
           console.error('Failed to write to log file:', error);
         }
         
-        await windowsPrint(labelPath, options);
+        await retryWithPolicy(
+          automationManager.getRetryPolicy('printing'),
+          () => windowsPrint(labelPath, options).catch(error => {
+            throw new PrintingError(getErrorMessage(error), { cause: error });
+          }),
+          (error, retry, delay) => console.error(`Print failed, retry ${retry} in ${delay}ms:`, error)
+        );
         console.log('Windows print job completed successfully');
         
       } else {
@@ -390,7 +526,7 @@ function setupHttpServer(automationManager: ReturnType<typeof createAutomationMa
         const oppositeOrientation = printSettings.orientation === 'landscape' ? 'portrait' : 'landscape';
         console.log(`Using opposite orientation for Unix: ${oppositeOrientation} (original: ${printSettings.orientation || 'portrait'})`);
         
-        const command = `lp -d "${automationManager.getPrinterName()}" -o ${oppositeOrientation} -o scaling=100 -o media=${mediaSize} "${labelPath}"`;
+        const command = `lp -d "${printerName}" -o ${oppositeOrientation} -o scaling=100 -o media=${mediaSize} "${labelPath}"`;
         console.log('Unix print command:', command);
         
         // Log the final print command to the log file
@@ -408,16 +544,20 @@ function setupHttpServer(automationManager: ReturnType<typeof createAutomationMa
           console.error('Failed to write to log file:', error);
         }
         
-        // Execute the command for each copy
+        // Execute the command for each copy, retrying only the copy that failed
         for (let i = 1; i <= quantity; i++) {
           console.log(`\nExecuting print ${i} of ${quantity}`);
-          const { stdout, stderr } = await execPromise(command);
-          
-          if (stderr) {
-            console.error(`Print error on copy ${i}:`, stderr);
-            console.log('=== End Print Label Request (Failed) ===\n');
-            return res.status(200).json({ success: false });
-          }
+          const { stdout } = await retryWithPolicy(
+            automationManager.getRetryPolicy('printing'),
+            async () => {
+              const output = await execPromise(command);
+              if (output.stderr) {
+                throw new PrintingError(`Print error on copy ${i}: ${output.stderr}`);
+              }
+              return output;
+            },
+            (error, retry, delay) => console.error(`Print error on copy ${i}, retry ${retry} in ${delay}ms:`, error)
+          );
           
           console.log(`Print job ${i} sent successfully!`);
           console.log('Print job details:', stdout);
@@ -425,39 +565,95 @@ function setupHttpServer(automationManager: ReturnType<typeof createAutomationMa
       }
 
       console.log('=== End Print Label Request (Success) ===\n');
+      emitAutomationEvent('printJob', { status: 'completed', fnsku, sku, asin, printer: printerName });
       return res.status(200).json({ success: true });
 
     } catch (error: unknown) {
       console.error('Error printing label:', error);
       console.log('=== End Print Label Request (Error) ===\n');
+      const { fnsku, sku, asin, profile } = req.body;
+      emitAutomationEvent('printJob', { status: 'failed', fnsku, sku, asin, printer: automationManager.getPrinterName(profile), error: getErrorMessage(error) });
+      if (error instanceof PrintingError && automationManager.getRetryPolicy('printing').escalation === 'notify') {
+        automationManager.notifyFailure('printing', error.message);
+      }
       // Use our error handling utility
       return res.status(200).json({ 
         success: false, 
-        error: getErrorMessage(error)
+        error: getErrorMessage(error),
+        errorClass: error instanceof PrintingError ? error.errorClass : classifyError(error)
       });
     }
   });
 
   // Routes without authentication for now
+  // By default the automation runs in the background and the caller polls GET /automation/:id.
+  // Pass ?wait=true to hold the connection open until the listing result is available (up to
+  // 5 minutes; after that the response is the same 202 and the caller polls).
+  // An Idempotency-Key header (default: the listing's SKU) makes retried requests return the original automation.
   server.post('/automation/start', async (req, res) => {
     try {
       console.log(req.body.params);
       const request = req.body as AutomationRequest;
+      const idempotencyKey = req.get('Idempotency-Key');
+      if (idempotencyKey) {
+        request.idempotencyKey = idempotencyKey;
+      }
       console.log('\n=== Starting New Automation ===');
       console.log('Request details:', {
         type: request.type,
+        profile: request.profile,
         sku: request.params?.sku,
         asin: request.params?.asin,
         price: request.params?.price,
         condition: request.params?.condition,
-        conditionNotes: request.params?.conditionNotes
+        conditionNotes: request.params?.conditionNotes,
+        dryRun: request.dryRun,
+        idempotencyKey: request.idempotencyKey,
+        wait: req.query.wait === 'true'
       });
+
+      if (request.profile && !await automationManager.hasProfile(request.profile)) {
+        return res.status(400).json({
+          success: false,
+          error: `Unknown seller profile "${request.profile}"`,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      try {
+        normalizeRequestPrice(request);
+      } catch (error) {
+        return res.status(400).json({
+          success: false,
+          error: getErrorMessage(error),
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      // A repeated request (same Idempotency-Key, or the same SKU) gets the original automation
+      const replayedId = await automationManager.replayIdempotentRequest(request);
+      if (replayedId) {
+        console.log('Repeated request, using existing automation ID:', replayedId);
+      }
+
+      if (req.query.wait !== 'true') {
+        const id = replayedId ?? await automationManager.submitAutomation(request);
+        console.log('Accepted automation ID:', id);
+        return res.status(replayedId ? 200 : 202).json({
+          success: true,
+          id,
+          replayed: Boolean(replayedId),
+          statusUrl: `/automation/${id}`,
+          timestamp: new Date().toISOString()
+        });
+      }
       
       console.log('Calling automationManager.startAutomation...');
-      const id = await automationManager.startAutomation(request);
+      const id = replayedId ?? await automationManager.startAutomation(request);
       console.log('Received automation ID:', id);
 
-      // Add a timeout for waiting for the result
+      // Hold the connection for up to 5 minutes; a job still queued or running by then is
+      // handed back like a non-blocking request, so the caller polls instead of resubmitting
       const MAX_WAIT_TIME = 300000; // 5 minutes
       const POLL_INTERVAL = 2000; // 2 seconds
       const startTime = Date.now();
@@ -465,9 +661,8 @@ function setupHttpServer(automationManager: ReturnType<typeof createAutomationMa
       // Function to poll for results with exponential backoff
       const getResultWithRetry = async (): Promise<any> => {
         let attempts = 0;
-        const maxAttempts = 10;
         
-        while (attempts < maxAttempts && (Date.now() - startTime) < MAX_WAIT_TIME) {
+        while ((Date.now() - startTime) < MAX_WAIT_TIME) {
           console.log(`Attempt ${attempts + 1} to get result for automation ID: ${id}`);
           const result = await automationManager.getAutomationResult(id);
           
@@ -475,14 +670,15 @@ function setupHttpServer(automationManager: ReturnType<typeof createAutomationMa
             return result;
           }
           
-          // Exponential backoff with jitter
-          const delay = Math.min(POLL_INTERVAL * Math.pow(1.5, attempts), 10000) + Math.random() * 1000;
+          // Exponential backoff with jitter, never sleeping past the deadline
+          const remaining = MAX_WAIT_TIME - (Date.now() - startTime);
+          const delay = Math.min(POLL_INTERVAL * Math.pow(1.5, attempts), 10000, remaining) + Math.random() * 1000;
           console.log(`No result yet, waiting ${Math.round(delay)}ms before retry...`);
           await new Promise(resolve => setTimeout(resolve, delay));
           attempts++;
         }
         
-        throw new Error(`Timed out waiting for automation result after ${maxAttempts} attempts`);
+        return null;
       };
       
       // Get the result with retry logic
@@ -491,10 +687,51 @@ function setupHttpServer(automationManager: ReturnType<typeof createAutomationMa
       console.log('Raw automation result:', finalResult);
       
       if (!finalResult) {
-        console.log('No result found for automation ID:', id);
-        throw new Error(`No result found for automation ID: ${id}`);
+        console.log('Still waiting on automation ID:', id);
+        return res.status(202).json({
+          success: true,
+          id,
+          replayed: Boolean(replayedId),
+          statusUrl: `/automation/${id}`,
+          message: `No result after ${MAX_WAIT_TIME / 1000}s; the automation is still queued or running`,
+          timestamp: new Date().toISOString()
+        });
       }
       
+      if (finalResult.error) {
+        const errorClass: AutomationErrorClass = finalResult.errorClass ?? 'unknown';
+        return res.status(ERROR_CLASS_HTTP_STATUS[errorClass]).json({
+          success: false,
+          id,
+          replayed: Boolean(replayedId),
+          error: finalResult.error,
+          errorClass,
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      if (finalResult.research) {
+        return res.json({
+          success: true,
+          id,
+          replayed: Boolean(replayedId),
+          research: finalResult.research,
+          message: 'ASIN checked, nothing was created.',
+          timestamp: new Date().toISOString()
+        });
+      }
+
+      if (finalResult.preview) {
+        return res.json({
+          success: true,
+          id,
+          replayed: Boolean(replayedId),
+          preview: finalResult.preview,
+          message: 'Dry run completed, no offer was created.',
+          timestamp: new Date().toISOString()
+        });
+      }
+
       if (!finalResult.fnsku) {
         console.log('No FNSKU found in result:', finalResult);
         throw new Error('Failed to get FNSKU from automation');
@@ -509,6 +746,7 @@ function setupHttpServer(automationManager: ReturnType<typeof createAutomationMa
       return res.json({ 
         success: true,
         id, 
+        replayed: Boolean(replayedId),
         fnsku: finalResult.fnsku,
         message: 'Listing created successfully.',
         timestamp: new Date().toISOString()
@@ -522,17 +760,164 @@ function setupHttpServer(automationManager: ReturnType<typeof createAutomationMa
       });
       
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
-      return res.status(500).json({ 
+      const errorClass = classifyError(error);
+      return res.status(ERROR_CLASS_HTTP_STATUS[errorClass]).json({ 
         success: false,
         error: errorMessage,
+        errorClass,
         timestamp: new Date().toISOString()
       });
     }
   });
 
-  server.get('/setup/status', async (_req, res) => {
+  // Batch listing import: a JSON array of createListing params or a CSV upload (Content-Type: text/csv).
+  // Every row is validated first; nothing is queued if any row is invalid.
+  server.post('/automation/batch', express.text({ type: 'text/csv', limit: '5mb' }), async (req, res) => {
     try {
-      const status = await automationManager.getSetupStatus();
+      const isCsv = typeof req.body === 'string';
+      const input = isCsv ? req.body : (Array.isArray(req.body) ? req.body : req.body?.rows);
+      const result = await automationManager.importBatch(input ?? [], isCsv ? 'csv' : 'json');
+
+      if (!result.batchId) {
+        return res.status(400).json({ success: false, ...result });
+      }
+      return res.status(202).json({
+        success: true,
+        ...result,
+        reportUrl: `/automation/batch/${result.batchId}`,
+        csvReportUrl: `/automation/batch/${result.batchId}/report.csv`
+      });
+    } catch (error) {
+      return res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  });
+
+  server.get('/automation/batch/:batchId', async (req, res) => {
+    const report = await automationManager.getBatchReport(req.params.batchId);
+    if (!report) {
+      return res.status(404).json({ error: `Batch ${req.params.batchId} not found` });
+    }
+    return res.json({ batchId: req.params.batchId, rows: report });
+  });
+
+  server.get('/automation/batch/:batchId/report.csv', async (req, res) => {
+    const csv = await automationManager.getBatchReportCsv(req.params.batchId);
+    if (!csv) {
+      return res.status(404).json({ error: `Batch ${req.params.batchId} not found` });
+    }
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="batch-report-${req.params.batchId}.csv"`);
+    return res.send(csv);
+  });
+
+  // Failure artifact bundle (screenshot and HTML inlined) as a JSON download
+  server.get('/automation/:id/artifacts', async (req, res) => {
+    const bundle = await automationManager.getArtifacts(req.params.id);
+    if (!bundle) {
+      return res.status(404).json({ error: `No artifacts for automation ${req.params.id}` });
+    }
+    res.setHeader('Content-Disposition', `attachment; filename="automation-${req.params.id}-artifacts.json"`);
+    return res.json(bundle);
+  });
+
+  // Raw Playwright trace; open it with the trace viewer below or `npx playwright show-trace`
+  server.get('/automation/:id/trace.zip', (req, res) => {
+    const tracePath = automationManager.getTracePath(req.params.id);
+    if (!tracePath) {
+      return res.status(404).json({ error: `No trace for automation ${req.params.id}` });
+    }
+    return res.sendFile(tracePath);
+  });
+
+  // Trace viewer web app, e.g. /trace/index.html?trace=<trace.zip URL>
+  server.use('/trace', express.static(getTraceViewerPath()));
+
+  // Screenshot captured by a dry-run createListing
+  server.get('/automation/:id/preview.png', async (req, res) => {
+    const result = await automationManager.getAutomationResult(req.params.id);
+    if (!result?.preview) {
+      return res.status(404).json({ error: `No preview for automation ${req.params.id}` });
+    }
+    return res.sendFile(result.preview.screenshotPath);
+  });
+
+  // Download the rows of an inventory or orders result as CSV
+  server.get('/automation/:id/result.csv', async (req, res) => {
+    const csv = await automationManager.getAutomationResultCsv(req.params.id);
+    if (!csv) {
+      return res.status(404).json({ error: `No exportable result for automation ${req.params.id}` });
+    }
+    res.setHeader('Content-Type', 'text/csv');
+    res.setHeader('Content-Disposition', `attachment; filename="automation-${req.params.id}.csv"`);
+    return res.send(csv);
+  });
+
+  // Live status and final result of an automation
+  server.get('/automation/:id', (req, res) => {
+    const job = automationManager.getAutomationJob(req.params.id);
+    if (!job) {
+      return res.status(404).json({ error: `Automation ${req.params.id} not found` });
+    }
+    return res.json(job);
+  });
+
+  // Cancel, pause or resume a running automation, or retry a failed one
+  server.post('/automation/:id/:action(cancel|pause|resume|retry)', async (req, res) => {
+    const { id, action } = req.params;
+    try {
+      const actions = {
+        cancel: () => automationManager.cancelAutomation(id),
+        pause: () => automationManager.pauseAutomation(id),
+        resume: () => automationManager.resumeAutomation(id),
+        retry: () => automationManager.retryAutomation(id)
+      };
+      const success = await actions[action as keyof typeof actions]();
+      if (!success) {
+        return res.status(409).json({ success: false, error: `Cannot ${action} automation ${id}` });
+      }
+      return res.json({ success: true, id });
+    } catch (error) {
+      return res.status(500).json({ success: false, error: getErrorMessage(error) });
+    }
+  });
+
+  // Server-Sent Events stream of automation, re-auth and print job events.
+  // ?automationId=<id> limits automation-specific events to one automation; app-wide events are always sent.
+  server.get('/events', (req, res) => {
+    const automationId = typeof req.query.automationId === 'string' ? req.query.automationId : undefined;
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    });
+    res.write(': connected\n\n');
+
+    const unsubscribe = subscribeAutomationEvents((event) => {
+      const eventAutomationId = getEventAutomationId(event);
+      if (automationId && eventAutomationId && eventAutomationId !== automationId) {
+        return;
+      }
+      res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    });
+
+    // Keep idle connections from being closed by proxies
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 15000);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  // Setup targets the active seller profile unless ?profile= (or a "profile" body field) names another
+  server.get('/setup/status', async (req, res) => {
+    try {
+      const profile = typeof req.query.profile === 'string' ? req.query.profile : undefined;
+      if (profile && !await automationManager.hasProfile(profile)) {
+        return res.status(404).json({ error: `Unknown seller profile "${profile}"` });
+      }
+      const status = await automationManager.getSetupStatus(profile);
       res.json(status);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -540,9 +925,13 @@ function setupHttpServer(automationManager: ReturnType<typeof createAutomationMa
     }
   });
 
-  server.post('/setup/start', async (_req, res) => {
+  server.post('/setup/start', async (req, res) => {
     try {
-      const id = await automationManager.startSetup();
+      const profile: string | undefined = req.body?.profile;
+      if (profile && !await automationManager.hasProfile(profile)) {
+        return res.status(404).json({ error: `Unknown seller profile "${profile}"` });
+      }
+      const id = await automationManager.startSetup(profile);
       res.json({ id });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
@@ -550,9 +939,23 @@ function setupHttpServer(automationManager: ReturnType<typeof createAutomationMa
     }
   });
 
-  const port = process.env.PORT || 3456;
-  server.listen(port, () => {
-    console.log(`HTTP server running on port ${port}`);
+  // Version and source of the Seller Central selector registry in use
+  server.get('/selectors', (_req, res) => {
+    res.json(automationManager.getSelectorRegistryInfo());
+  });
+
+  // Pick up an edited selectors.json without waiting for the file watcher
+  server.post('/selectors/reload', async (_req, res) => {
+    try {
+      res.json(await automationManager.reloadSelectors());
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error occurred';
+      res.status(500).json({ error: errorMessage });
+    }
+  });
+
+  server.listen(httpPort, () => {
+    console.log(`HTTP server running on port ${httpPort}`);
   });
 }
 
@@ -0,0 +1,64 @@
+import { Page } from 'playwright';
+import { SelectorTimeoutError } from './automationErrors.js';
+import { LocalizedSelectors } from './selectorRegistry.js';
+import { parseNumber } from './sellerCentralTables.js';
+
+type PriceField = 'buyBoxPrice' | 'lowestNewPrice' | 'lowestUsedPrice';
+
+const PRICE_FIELDS: [PriceField, string][] = [
+    ['buyBoxPrice', 'offer.buyBoxPrice'],
+    ['lowestNewPrice', 'offer.lowestNewPrice'],
+    ['lowestUsedPrice', 'offer.lowestUsedPrice']
+];
+
+// First number in a text like "Lowest Used price: $8.50 + $3.99 shipping" or "1 234,56 €"
+const AMOUNT_PATTERN = /\d(?:[\d.,\s]*\d)?/;
+
+/**
+ * Read the competing offers Seller Central shows next to the offer form: Buy Box, lowest
+ * new and used prices and the number of offers. The panel loads after the form, so wait
+ * up to `timeout` for any of it. A panel without a given offer leaves that field unset;
+ * no panel at all throws a SelectorTimeoutError, so a changed page can't pass for an
+ * ASIN nobody sells.
+ */
+export async function captureMarketPrices(
+    page: Page,
+    selectors: LocalizedSelectors,
+    profile: SellerProfile,
+    timeout = 10000
+): Promise<MarketPrices> {
+    const market: MarketPrices = { capturedAt: new Date().toISOString(), currency: profile.currency };
+
+    try {
+        await selectors.locateAny(page, [...PRICE_FIELDS.map(([, key]) => key), 'offer.offerCount'], { timeout });
+    } catch (error) {
+        if (!(error instanceof SelectorTimeoutError)) throw error;
+        throw new SelectorTimeoutError(`No market prices found on the offer page: ${error.message}`, { cause: error });
+    }
+
+    const readAmount = async (key: string) => {
+        const element = await selectors.find(page, key);
+        const texts = await element?.first().evaluate(textsFromLabel).catch(() => null);
+        const amount = texts?.map(text => text.match(AMOUNT_PATTERN)?.[0]).find(Boolean);
+        return parseNumber(amount, profile.locale);
+    };
+    for (const [field, key] of PRICE_FIELDS) {
+        const price = await readAmount(key);
+        if (price !== undefined) market[field] = price;
+    }
+    const offerCount = await readAmount('offer.offerCount');
+    if (offerCount !== undefined) market.offerCount = Math.round(offerCount);
+
+    return market;
+}
+
+/**
+ * Runs inside the page: the label's own text, then its row's text from the label on, for an
+ * amount in a sibling element. Only the direct parent, so a row without an amount doesn't
+ * borrow one from the next row.
+ */
+function textsFromLabel(label: Element): string[] {
+    const own = label.textContent ?? '';
+    const row = label.parentElement?.textContent ?? '';
+    return [own, row.slice(Math.max(0, row.indexOf(own)))];
+}
@@ -23,13 +23,33 @@ electron.contextBridge.exposeInMainWorld('electron', {
         ipcOn('activeAutomationsCount', (count) => {
             callback(count);
         }),
-    getSetupStatus: () => ipcInvoke<'getSetupStatus'>('getSetupStatus'),
-    startSetup: () => ipcInvoke<'startSetup'>('startSetup'),
+    getSetupStatus: (profile?: string) => ipcInvoke<'getSetupStatus'>('getSetupStatus', profile),
+    subscribeSessionHealth: (callback) =>
+        ipcOn('sessionHealth', (event) => {
+            callback(event);
+        }),
+    checkSession: (profile?: string) => ipcInvoke<'checkSession'>('checkSession', profile),
+    getCredentials: (profile?: string) => ipcInvoke<'getCredentials'>('getCredentials', profile),
+    saveCredentials: (credentials: SellerCredentials, profile?: string) => ipcInvoke<'saveCredentials'>('saveCredentials', { credentials, profile }),
+    deleteCredentials: (profile?: string) => ipcInvoke<'deleteCredentials'>('deleteCredentials', profile),
+    startSetup: (profile?: string) => ipcInvoke<'startSetup'>('startSetup', profile),
     completeSetup: () => ipcInvoke<'completeSetup'>('completeSetup'),
     getLogs: () => ipcInvoke<'getLogs'>('getLogs'),
     getPrinters: () => ipcInvoke<'getPrinters'>('getPrinters'),
-    getPrintSettings: () => ipcInvoke<'getPrintSettings'>('getPrintSettings'),
+    getPrintSettings: (profile?: string) => ipcInvoke<'getPrintSettings'>('getPrintSettings', profile),
     testPrint: (settings: PrintSettings) => ipcInvoke<'testPrint'>('testPrint', settings),
+    cancelAutomation: (id: string) => ipcInvoke<'cancelAutomation'>('cancelAutomation', id),
+    pauseAutomation: (id: string) => ipcInvoke<'pauseAutomation'>('pauseAutomation', id),
+    resumeAutomation: (id: string) => ipcInvoke<'resumeAutomation'>('resumeAutomation', id),
+    retryAutomation: (id: string) => ipcInvoke<'retryAutomation'>('retryAutomation', id),
+    getArtifacts: (id: string) => ipcInvoke<'getArtifacts'>('getArtifacts', id),
+    listTraces: () => ipcInvoke<'listTraces'>('listTraces'),
+    openTrace: (id: string) => ipcInvoke<'openTrace'>('openTrace', id),
+    setBrowserVisible: (id: string, visible: boolean) => ipcInvoke<'setBrowserVisible'>('setBrowserVisible', { id, visible }),
+    importBatch: (content: string, format: BatchImportFormat) => ipcInvoke<'importBatch'>('importBatch', { content, format }),
+    saveBatchReport: (batchId: string) => ipcInvoke<'saveBatchReport'>('saveBatchReport', batchId),
+    getAutomationSettings: () => ipcInvoke<'getAutomationSettings'>('getAutomationSettings'),
+    saveAutomationSettings: (settings: Partial<AutomationSettings>) => ipcInvoke<'saveAutomationSettings'>('saveAutomationSettings', settings),
 } satisfies Window['electron']); 
 
 
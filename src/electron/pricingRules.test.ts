@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { PriceSanityError, MissingPriceError } from './automationErrors.js';
+import { DEFAULT_PRICING_RULES, computeListingPricing, validatePricingRules, needsMarketPrices, parseRequestedPrice } from './pricingRules.js';
+
+const rules = (overrides: Partial<PricingRules> = {}): PricingRules => ({ ...DEFAULT_PRICING_RULES, ...overrides });
+const listPrice = (listPriceFormula: string, price = 10) =>
+    computeListingPricing(rules({ listPriceFormula }), price).listPrice;
+
+describe('List Price formulas', () => {
+    it('applies * and / before + and -', () => {
+        expect(listPrice('price + 2 * 3')).toBe(16);
+        expect(listPrice('price - 4 / 2')).toBe(8);
+        expect(listPrice('(price + 2) * 3')).toBe(36);
+        expect(listPrice('price - 2 - 3')).toBe(5);
+        expect(listPrice('-price * -2')).toBe(20);
+    });
+
+    it('rounds List Price to cents and can use the requested price', () => {
+        expect(listPrice('price / 3')).toBe(3.33);
+        expect(computeListingPricing(
+            rules({ listPriceFormula: 'requested * 2', conditionMultipliers: { 'Used - Good': 0.5 } }),
+            10,
+            'Used - Good'
+        )).toMatchObject({ price: 5, listPrice: 20 });
+    });
+
+    it('leaves List Price unset for an empty formula', () => {
+        expect(listPrice('  ')).toBeUndefined();
+    });
+
+    it('rejects a division by zero or a non-positive result', () => {
+        expect(() => listPrice('price / 0')).toThrow(PriceSanityError);
+        expect(() => listPrice('price - 20')).toThrow(PriceSanityError);
+    });
+
+    it.each([
+        ['price * markup', 'unexpected "markup"'],
+        ['price *', 'it ends too early'],
+        ['(price + 1', 'a ")" is missing'],
+        ['price 2', 'unexpected "2"'],
+        ['price ^ 2', 'unexpected "^"']
+    ])('rejects "%s"', (formula, problem) => {
+        expect(() => validatePricingRules(rules({ listPriceFormula: formula }))).toThrow(problem);
+    });
+});
+
+describe('computeListingPricing', () => {
+    it('keeps the requested price without rules', () => {
+        expect(computeListingPricing(rules(), 12.34)).toEqual({
+            requestedPrice: 12.34,
+            source: 'request',
+            price: 12.34,
+            listPrice: 18.51,
+            appliedRules: []
+        });
+    });
+
+    it.each([
+        [12, 11.99],
+        [9.5, 9.99],
+        [10.2, 9.99],
+        [10.6, 10.99],
+        [0.3, 0.99]
+    ])('rounds %f to the nearest .99 (%f)', (price, rounded) => {
+        expect(computeListingPricing(rules({ roundToNinetyNine: true }), price).price).toBe(rounded);
+    });
+
+    it('applies the multiplier, then rounding, then the minimum price', () => {
+        const pricing = computeListingPricing(
+            rules({ conditionMultipliers: { 'Used - Acceptable': 0.9 }, roundToNinetyNine: true, minimumPrice: 5 }),
+            4,
+            'Used - Acceptable'
+        );
+        expect(pricing.price).toBe(5);
+        expect(pricing.appliedRules).toEqual(['Used - Acceptable x0.9', 'rounded to .99', 'minimum price 5']);
+    });
+
+    it('rejects a requested price that is not a number', () => {
+        expect(() => computeListingPricing(rules({ listPriceFormula: 'price + 1' }), '9.99' as unknown as number))
+            .toThrow(PriceSanityError);
+        expect(() => computeListingPricing(rules(), NaN)).toThrow('is not a number');
+        expect(() => computeListingPricing(rules(), null as unknown as number)).toThrow('is not a number');
+    });
+
+    it('matches the lowest used offer minus the undercut when the request has no price', () => {
+        const market: MarketPrices = { capturedAt: '', currency: 'USD', lowestUsedPrice: 8.5 };
+        expect(computeListingPricing(rules({ missingPriceMode: 'matchLowestUsed', undercut: 0.25 }), undefined, undefined, market))
+            .toMatchObject({ source: 'lowestUsed', price: 8.25 });
+        expect(() => computeListingPricing(rules({ missingPriceMode: 'matchLowestUsed' }), undefined))
+            .toThrow(MissingPriceError);
+        expect(() => computeListingPricing(rules(), undefined)).toThrow(MissingPriceError);
+    });
+});
+
+describe('sanity guard', () => {
+    const guard = { enabled: true, minPrice: 1, maxPrice: 100 };
+
+    it('is off by default', () => {
+        expect(computeListingPricing(rules(), 0.5).price).toBe(0.5);
+        expect(computeListingPricing(rules(), 2500).price).toBe(2500);
+    });
+
+    it('rejects prices outside the range once enabled', () => {
+        expect(() => computeListingPricing(rules({ sanityGuard: guard }), 999)).toThrow(PriceSanityError);
+        expect(() => computeListingPricing(rules({ sanityGuard: guard }), 0.5)).toThrow('outside the allowed range 1-100');
+        expect(computeListingPricing(rules({ sanityGuard: guard }), 100).price).toBe(100);
+    });
+
+    it('checks the price after the rules are applied', () => {
+        const sanityGuard = { ...guard, maxPrice: 10 };
+        expect(computeListingPricing(rules({ sanityGuard, conditionMultipliers: { 'Used - Good': 0.5 } }), 15, 'Used - Good').price)
+            .toBe(7.5);
+    });
+
+    it('validates the range only when enabled', () => {
+        const inverted = { enabled: false, minPrice: 10, maxPrice: 1 };
+        expect(() => validatePricingRules(rules({ sanityGuard: inverted }))).not.toThrow();
+        expect(() => validatePricingRules(rules({ sanityGuard: { ...inverted, enabled: true } }))).toThrow('maximum above its minimum');
+        expect(() => validatePricingRules(rules({ sanityGuard: guard, minimumPrice: 200 }))).toThrow('above the largest allowed price');
+    });
+});
+
+describe('parseRequestedPrice', () => {
+    it('reads numbers and numeric strings', () => {
+        expect(parseRequestedPrice(9.99)).toBe(9.99);
+        expect(parseRequestedPrice(' 9.99 ')).toBe(9.99);
+    });
+
+    it('treats an empty price as missing', () => {
+        expect(parseRequestedPrice(undefined)).toBeUndefined();
+        expect(parseRequestedPrice(null)).toBeUndefined();
+        expect(parseRequestedPrice('  ')).toBeUndefined();
+    });
+
+    it.each(['abc', 0, -5, '1e999', true])('rejects %s', value => {
+        expect(() => parseRequestedPrice(value)).toThrow('Invalid price');
+    });
+});
+
+describe('needsMarketPrices', () => {
+    it('reads the offer page only to match a missing price or when asked to', () => {
+        expect(needsMarketPrices(rules(), undefined)).toBe(false);
+        expect(needsMarketPrices(rules({ missingPriceMode: 'matchLowestUsed' }), undefined)).toBe(true);
+        expect(needsMarketPrices(rules({ missingPriceMode: 'matchLowestUsed' }), 10)).toBe(false);
+        expect(needsMarketPrices(rules({ captureMarketPrices: true }), 10)).toBe(true);
+    });
+});
@@ -0,0 +1,206 @@
+import { PriceSanityError, MissingPriceError } from './automationErrors.js';
+
+// Without rules from settings: the requested price as is, List Price at 1.5x as before
+export const DEFAULT_PRICING_RULES: PricingRules = {
+    conditionMultipliers: {},
+    roundToNinetyNine: false,
+    minimumPrice: 0,
+    listPriceFormula: 'price * 1.5',
+    missingPriceMode: 'required',
+    undercut: 0,
+    captureMarketPrices: false,
+    // Off until the user opts in, so existing prices keep submitting as before
+    sanityGuard: { enabled: false, minPrice: 1, maxPrice: 1000 }
+};
+
+type FormulaVariables = { price: number; requested: number };
+
+/**
+ * The price of an HTTP or IPC request, read like a batch row's: JSON clients may send it
+ * as a string ("9.99"). Empty means no price; anything but a positive number throws.
+ */
+export function parseRequestedPrice(value: unknown): number | undefined {
+    const text = value === undefined || value === null ? '' : String(value).trim();
+    if (!text) return undefined;
+    const price = Number(text);
+    if (!Number.isFinite(price) || price <= 0) {
+        throw new Error(`Invalid price "${text}"`);
+    }
+    return price;
+}
+
+// Whether the offer page has to be read before the price is known
+export function needsMarketPrices(rules: PricingRules, requestedPrice?: number): boolean {
+    return rules.captureMarketPrices || (requestedPrice === undefined && rules.missingPriceMode === 'matchLowestUsed');
+}
+
+/**
+ * Prices to fill a listing with. The requested price goes through the condition's
+ * multiplier, .99 rounding and the minimum price, in that order; List Price is computed
+ * from the result. Without a requested price, the lowest used offer minus the undercut
+ * is the starting point instead (no multiplier: it already is a used price).
+ * A Your Price outside the sanity guard, when it is enabled, throws PriceSanityError.
+ */
+export function computeListingPricing(
+    rules: PricingRules,
+    requestedPrice: number | undefined,
+    condition?: ListingCondition,
+    market?: MarketPrices
+): ListingPricing {
+    const appliedRules: string[] = [];
+    let price: number;
+
+    if (requestedPrice !== undefined) {
+        // A string would be concatenated by the List Price formula ("9.99" + 1)
+        if (typeof requestedPrice !== 'number' || !Number.isFinite(requestedPrice)) {
+            throw new PriceSanityError(`Requested price ${JSON.stringify(requestedPrice)} is not a number`);
+        }
+        price = requestedPrice;
+        const multiplier = condition ? rules.conditionMultipliers[condition] : undefined;
+        if (multiplier !== undefined && multiplier !== 1) {
+            price = roundCents(price * multiplier);
+            appliedRules.push(`${condition} x${multiplier}`);
+        }
+    } else if (rules.missingPriceMode !== 'matchLowestUsed') {
+        throw new MissingPriceError('The request has no price');
+    } else if (market?.lowestUsedPrice === undefined) {
+        throw new MissingPriceError('The request has no price and the offer page shows no used offer to match');
+    } else {
+        price = roundCents(market.lowestUsedPrice - rules.undercut);
+        appliedRules.push(`lowest used ${market.lowestUsedPrice} - ${rules.undercut}`);
+    }
+
+    if (rules.roundToNinetyNine) {
+        const rounded = Math.max(0.99, Math.round(price) - 0.01);
+        if (rounded !== price) {
+            price = roundCents(rounded);
+            appliedRules.push('rounded to .99');
+        }
+    }
+    if (price < rules.minimumPrice) {
+        price = rules.minimumPrice;
+        appliedRules.push(`minimum price ${rules.minimumPrice}`);
+    }
+
+    const { enabled, minPrice, maxPrice } = rules.sanityGuard;
+    if (enabled && (price < minPrice || price > maxPrice)) {
+        const origin = requestedPrice !== undefined ? `requested ${requestedPrice}` : appliedRules[0];
+        throw new PriceSanityError(
+            `Price ${price} (${origin}) is outside the allowed range ${minPrice}-${maxPrice}; check for a typo`
+        );
+    }
+
+    const pricing: ListingPricing = {
+        requestedPrice,
+        source: requestedPrice !== undefined ? 'request' : 'lowestUsed',
+        price,
+        appliedRules
+    };
+    if (rules.listPriceFormula.trim()) {
+        const listPrice = roundCents(compileFormula(rules.listPriceFormula)({ price, requested: requestedPrice ?? price }));
+        if (!Number.isFinite(listPrice) || listPrice <= 0) {
+            throw new PriceSanityError(`List Price formula "${rules.listPriceFormula}" gave ${listPrice} for price ${price}`);
+        }
+        pricing.listPrice = listPrice;
+    }
+    return pricing;
+}
+
+// Throws on the first problem, worded for the settings screen
+export function validatePricingRules(rules: PricingRules) {
+    for (const [condition, multiplier] of Object.entries(rules.conditionMultipliers)) {
+        if (typeof multiplier !== 'number' || !Number.isFinite(multiplier) || multiplier <= 0) {
+            throw new Error(`The multiplier for ${condition} must be a positive number`);
+        }
+    }
+    if (!Number.isFinite(rules.minimumPrice) || rules.minimumPrice < 0) {
+        throw new Error('The minimum price must be zero or more');
+    }
+    if (rules.missingPriceMode !== 'required' && rules.missingPriceMode !== 'matchLowestUsed') {
+        throw new Error(`Unknown missing price mode "${rules.missingPriceMode}"`);
+    }
+    if (!Number.isFinite(rules.undercut) || rules.undercut < 0) {
+        throw new Error('The undercut must be zero or more');
+    }
+
+    const { enabled, minPrice, maxPrice } = rules.sanityGuard;
+    if (enabled && (!Number.isFinite(minPrice) || !Number.isFinite(maxPrice) || minPrice < 0 || maxPrice <= minPrice)) {
+        throw new Error('The allowed price range needs a maximum above its minimum');
+    }
+    if (enabled && rules.minimumPrice > maxPrice) {
+        throw new Error('The minimum price is above the largest allowed price');
+    }
+
+    if (rules.listPriceFormula.trim()) {
+        compileFormula(rules.listPriceFormula);
+    }
+}
+
+function roundCents(value: number): number {
+    return Math.round(value * 100) / 100;
+}
+
+/**
+ * List Price formulas are plain arithmetic: numbers, `price` (the final Your Price),
+ * `requested` (the price in the request, or the matched price), + - * / and parentheses.
+ */
+function compileFormula(formula: string): (variables: FormulaVariables) => number {
+    const tokens = formula.match(/\d+(?:\.\d+)?|\.\d+|[A-Za-z_]+|\S/g) ?? [];
+    let position = 0;
+
+    const fail = (problem: string): never => {
+        throw new Error(`Invalid List Price formula "${formula}": ${problem}`);
+    };
+    const peek = () => tokens[position];
+    const next = () => tokens[position++];
+
+    type Node = (variables: FormulaVariables) => number;
+
+    const parseExpression = (): Node => {
+        let left = parseTerm();
+        while (peek() === '+' || peek() === '-') {
+            const operator = next();
+            const lhs = left;
+            const rhs = parseTerm();
+            left = operator === '+' ? vars => lhs(vars) + rhs(vars) : vars => lhs(vars) - rhs(vars);
+        }
+        return left;
+    };
+
+    const parseTerm = (): Node => {
+        let left = parseFactor();
+        while (peek() === '*' || peek() === '/') {
+            const operator = next();
+            const lhs = left;
+            const rhs = parseFactor();
+            left = operator === '*' ? vars => lhs(vars) * rhs(vars) : vars => lhs(vars) / rhs(vars);
+        }
+        return left;
+    };
+
+    const parseFactor = (): Node => {
+        const token = next();
+        if (token === undefined) return fail('it ends too early');
+        if (token === '-') {
+            const operand = parseFactor();
+            return vars => -operand(vars);
+        }
+        if (token === '(') {
+            const inner = parseExpression();
+            if (next() !== ')') fail('a ")" is missing');
+            return inner;
+        }
+        if (/^[\d.]/.test(token)) {
+            const value = Number(token);
+            return () => value;
+        }
+        if (token === 'price' || token === 'requested') {
+            return vars => vars[token];
+        }
+        return fail(`unexpected "${token}"`);
+    };
+
+    const root = parseExpression();
+    if (position < tokens.length) fail(`unexpected "${peek()}"`);
+    return root;
+}
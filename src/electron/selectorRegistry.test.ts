@@ -0,0 +1,155 @@
+import os from 'os';
+import path from 'path';
+import fs from 'fs/promises';
+import { Page } from 'playwright';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SelectorRegistry, SelectorRegistryFile } from './selectorRegistry.js';
+
+type FakeLocator = {
+    description: string;
+    count(): Promise<number>;
+    locator(css: string): FakeLocator;
+    nth(index: number): FakeLocator;
+};
+
+// Stand-in page whose locators describe how they were built and match while listed in `present`
+function fakePage(present: string[]) {
+    const locator = (description: string): FakeLocator => ({
+        description,
+        count: async () => present.includes(description) ? 1 : 0,
+        locator: css => locator(`${description} >> ${css}`),
+        nth: index => locator(`${description} >> nth=${index}`)
+    });
+    const page = {
+        locator: (css: string) => locator(`css=${css}`),
+        getByRole: (role: string, options: { name?: string }) => locator(`role=${role}[name="${options.name}"]`),
+        getByTestId: (testId: string) => locator(`testId=${testId}`),
+        getByText: (text: string) => locator(`text=${text}`),
+        getByLabel: (label: string) => locator(`label=${label}`),
+        waitForTimeout: async () => {}
+    };
+    return page as unknown as Page;
+}
+
+const describeMatch = (locator: unknown) => (locator as FakeLocator | null)?.description;
+
+describe('SelectorRegistry', () => {
+    let dir: string;
+    let bundledPath: string;
+    let overridePath: string;
+
+    beforeEach(async () => {
+        dir = await fs.mkdtemp(path.join(os.tmpdir(), 'selector-registry-'));
+        bundledPath = path.join(dir, 'bundled.json');
+        overridePath = path.join(dir, 'selectors.json');
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+    });
+
+    afterEach(async () => {
+        vi.restoreAllMocks();
+        await fs.rm(dir, { recursive: true, force: true });
+    });
+
+    const writeRegistry = (filePath: string, registry: SelectorRegistryFile) =>
+        fs.writeFile(filePath, JSON.stringify(registry));
+
+    const loadRegistry = async (elements: SelectorRegistryFile['elements']) => {
+        await writeRegistry(bundledPath, { version: 1, elements });
+        const registry = new SelectorRegistry(bundledPath, overridePath);
+        await registry.load();
+        return registry;
+    };
+
+    describe('load', () => {
+        it('prefers an override with the same or a newer version', async () => {
+            await writeRegistry(bundledPath, { version: 2, elements: { a: [{ css: '#a' }] } });
+            await writeRegistry(overridePath, { version: 2, elements: { a: [{ css: '#b' }], b: [{ css: '#c' }] } });
+
+            expect(await new SelectorRegistry(bundledPath, overridePath).load())
+                .toMatchObject({ version: 2, source: overridePath, elementCount: 2 });
+        });
+
+        it('keeps the bundled registry when the override is older or invalid', async () => {
+            const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+            vi.spyOn(console, 'error').mockImplementation(() => {});
+            await writeRegistry(bundledPath, { version: 3, elements: {} });
+            await writeRegistry(overridePath, { version: 2, elements: {} });
+            const registry = new SelectorRegistry(bundledPath, overridePath);
+
+            expect(await registry.load()).toMatchObject({ version: 3, source: bundledPath });
+            expect(warn).toHaveBeenCalledWith(expect.stringContaining('bundled v3 is newer'));
+
+            await fs.writeFile(overridePath, JSON.stringify({ version: '4', elements: {} }));
+            expect(await registry.load()).toMatchObject({ version: 3, source: bundledPath });
+        });
+
+        it('fails without any valid registry', async () => {
+            await expect(new SelectorRegistry(bundledPath, overridePath).load()).rejects.toThrow('No valid selector registry');
+        });
+    });
+
+    describe('find', () => {
+        it('returns the first strategy that matches', async () => {
+            const registry = await loadRegistry({
+                submit: [{ testId: 'submit-button' }, { role: 'button', name: 'Save and finish' }, { css: 'form button' }]
+            });
+            const page = fakePage(['role=button[name="Save and finish"]', 'css=form button']);
+
+            expect(describeMatch(await registry.find(page, 'submit'))).toBe('role=button[name="Save and finish"]');
+            expect(await registry.find(fakePage([]), 'submit')).toBeNull();
+        });
+
+        it('fills placeholders and applies within and nth', async () => {
+            const registry = await loadRegistry({
+                row: [{ testId: 'row-{sku}', within: 'a', nth: 1 }]
+            });
+            const page = fakePage(['testId=row-SKU-1 >> a >> nth=1']);
+
+            expect(describeMatch(await registry.find(page, 'row', { sku: 'SKU-1' }))).toBe('testId=row-SKU-1 >> a >> nth=1');
+        });
+
+        it('throws for elements the registry does not define', async () => {
+            const registry = await loadRegistry({});
+            await expect(registry.find(fakePage([]), 'missing')).rejects.toThrow('"missing" is missing from registry v1');
+        });
+    });
+
+    describe('forLocale', () => {
+        it('uses the locale, then its language, then the default strategies', async () => {
+            await writeRegistry(bundledPath, {
+                version: 1,
+                elements: { save: [{ text: 'Save' }], cancel: [{ text: 'Cancel' }], done: [{ text: 'Done' }] },
+                locales: {
+                    'fr-CA': { save: [{ text: 'Sauvegarder' }] },
+                    fr: { save: [{ text: 'Enregistrer' }], cancel: [{ text: 'Annuler' }] }
+                }
+            });
+            const registry = new SelectorRegistry(bundledPath, overridePath);
+            expect((await registry.load()).locales).toEqual(['fr-CA', 'fr']);
+            const page = fakePage(['text=Sauvegarder', 'text=Enregistrer', 'text=Annuler', 'text=Done']);
+
+            const canadian = registry.forLocale('fr-CA');
+            expect(describeMatch(await canadian.find(page, 'save'))).toBe('text=Sauvegarder');
+            expect(describeMatch(await canadian.find(page, 'cancel'))).toBe('text=Annuler');
+            expect(describeMatch(await canadian.find(page, 'done'))).toBe('text=Done');
+            expect(describeMatch(await registry.forLocale('fr-FR').find(page, 'save'))).toBe('text=Enregistrer');
+            expect(describeMatch(await registry.forLocale('en-US').find(page, 'save'))).toBeUndefined();
+        });
+    });
+
+    describe('locate', () => {
+        it('waits until the element appears', async () => {
+            const registry = await loadRegistry({ done: [{ text: 'Done' }] });
+            const present: string[] = [];
+            const page = fakePage(present);
+            vi.spyOn(page, 'waitForTimeout').mockImplementation(async () => { present.push('text=Done'); });
+
+            expect(describeMatch(await registry.locate(page, 'done'))).toBe('text=Done');
+        });
+
+        it('gives up after the timeout', async () => {
+            const registry = await loadRegistry({ done: [{ text: 'Done' }] });
+            await expect(registry.locate(fakePage([]), 'done', { timeout: 0 })).rejects.toThrow('"done" did not match (registry v1)');
+        });
+    });
+});
@@ -0,0 +1,215 @@
+import fs from 'fs/promises';
+import { watchFile, unwatchFile } from 'fs';
+import { Locator, Page } from 'playwright';
+import { SelectorTimeoutError } from './automationErrors.js';
+
+/**
+ * One way of finding an element. Exactly one of css/role/testId/text/label is used;
+ * `within` narrows to a descendant (e.g. the link inside a test-id wrapper) and `nth`
+ * picks one of several matches. String values may contain {placeholders}.
+ */
+export type SelectorStrategy = {
+    css?: string;
+    role?: Parameters<Page['getByRole']>[0];
+    name?: string;
+    exact?: boolean;
+    testId?: string;
+    text?: string;
+    label?: string;
+    within?: string;
+    nth?: number;
+};
+
+export type SelectorRegistryFile = {
+    version: number;
+    updatedAt?: string;
+    // Logical element name -> strategies, tried in order
+    elements: Record<string, SelectorStrategy[]>;
+    // Locale ("fr-CA", or a language like "fr") -> elements whose page text differs there
+    locales?: Record<string, Record<string, SelectorStrategy[]>>;
+};
+
+export type SelectorRegistryInfo = {
+    version: number;
+    updatedAt?: string;
+    source: string;
+    elementCount: number;
+    locales: string[];
+    loadedAt: string;
+};
+
+export type LocateOptions = {
+    timeout?: number;
+    vars?: Record<string, string>;
+    locale?: string; // Marketplace locale of the page, picks the registry's locale overrides
+};
+
+// The registry bound to one marketplace locale
+export type LocalizedSelectors = {
+    locate(page: Page, key: string, options?: Omit<LocateOptions, 'locale'>): Promise<Locator>;
+    locateAny(page: Page, keys: string[], options?: Omit<LocateOptions, 'locale'>): Promise<{ key: string; locator: Locator }>;
+    find(page: Page, key: string, vars?: Record<string, string>): Promise<Locator | null>;
+};
+
+const POLL_INTERVAL = 250;
+const WATCH_INTERVAL = 2000;
+
+/**
+ * Seller Central locators, loaded from a versioned JSON file instead of being compiled in.
+ * The bundled registry ships with the app; a registry next to settings.json overrides it
+ * when its version is the same or newer, and is reloaded whenever that file changes.
+ * Marketplaces whose pages use other wording look elements up through forLocale().
+ */
+export class SelectorRegistry {
+    private registry: SelectorRegistryFile = { version: 0, elements: {} };
+    private info: SelectorRegistryInfo | null = null;
+
+    constructor(private bundledPath: string, private overridePath: string) {}
+
+    async load(): Promise<SelectorRegistryInfo> {
+        const bundled = await this.readRegistry(this.bundledPath);
+        const override = await this.readRegistry(this.overridePath);
+
+        const [registry, source] = override && (!bundled || override.version >= bundled.version)
+            ? [override, this.overridePath]
+            : [bundled, this.bundledPath];
+        if (!registry) {
+            throw new Error(`No valid selector registry found at ${this.bundledPath} or ${this.overridePath}`);
+        }
+        if (override && registry !== override) {
+            console.warn(`Ignoring selector registry v${override.version} at ${this.overridePath}; bundled v${bundled!.version} is newer`);
+        }
+
+        this.registry = registry;
+        this.info = {
+            version: registry.version,
+            updatedAt: registry.updatedAt,
+            source,
+            elementCount: Object.keys(registry.elements).length,
+            locales: Object.keys(registry.locales ?? {}),
+            loadedAt: new Date().toISOString()
+        };
+        console.log(`Loaded selector registry v${registry.version} from ${source}`);
+        return this.info;
+    }
+
+    // Reload whenever the override file is created, edited or removed
+    watch() {
+        watchFile(this.overridePath, { interval: WATCH_INTERVAL }, (current, previous) => {
+            if (current.mtimeMs === previous.mtimeMs) return;
+            this.load().catch(error => console.error('Failed to reload selector registry:', error));
+        });
+    }
+
+    close() {
+        unwatchFile(this.overridePath);
+    }
+
+    getInfo(): SelectorRegistryInfo | null {
+        return this.info;
+    }
+
+    forLocale(locale: string): LocalizedSelectors {
+        return {
+            locate: (page, key, options = {}) => this.locate(page, key, { ...options, locale }),
+            locateAny: (page, keys, options = {}) => this.locateAny(page, keys, { ...options, locale }),
+            find: (page, key, vars) => this.find(page, key, vars, locale)
+        };
+    }
+
+    /**
+     * Wait until one of the element's strategies matches, trying them in order on every poll.
+     */
+    async locate(page: Page, key: string, options: LocateOptions = {}): Promise<Locator> {
+        return (await this.locateAny(page, [key], options)).locator;
+    }
+
+    /**
+     * Wait until any of several elements matches, e.g. the next page or an error banner.
+     * Keys are checked in order on every poll, so earlier keys win ties.
+     */
+    async locateAny(
+        page: Page,
+        keys: string[],
+        options: LocateOptions = {}
+    ): Promise<{ key: string; locator: Locator }> {
+        const deadline = Date.now() + (options.timeout ?? 30000);
+        for (;;) {
+            for (const key of keys) {
+                const locator = await this.find(page, key, options.vars, options.locale);
+                if (locator) return { key, locator };
+            }
+            if (Date.now() >= deadline) {
+                const names = keys.map(key => `"${key}"`).join(', ');
+                throw new SelectorTimeoutError(`Selector ${names} did not match (registry v${this.registry.version})`);
+            }
+            await page.waitForTimeout(POLL_INTERVAL);
+        }
+    }
+
+    // The first strategy that currently matches, or null without waiting
+    async find(page: Page, key: string, vars?: Record<string, string>, locale?: string): Promise<Locator | null> {
+        for (const locator of this.candidates(page, key, vars, locale)) {
+            if (await locator.count().catch(() => 0) > 0) {
+                return locator;
+            }
+        }
+        return null;
+    }
+
+    // Most specific first: the full locale, then its language, then the default elements
+    private strategiesFor(key: string, locale?: string): SelectorStrategy[] | undefined {
+        const locales = this.registry.locales ?? {};
+        const localized = locale && (locales[locale]?.[key] ?? locales[locale.split('-')[0]]?.[key]);
+        return localized || this.registry.elements[key];
+    }
+
+    private candidates(page: Page, key: string, vars: Record<string, string> = {}, locale?: string): Locator[] {
+        const strategies = this.strategiesFor(key, locale);
+        if (!strategies?.length) {
+            throw new Error(`Selector "${key}" is missing from registry v${this.registry.version}`);
+        }
+
+        const fill = (value: string) => value.replace(/\{(\w+)\}/g, (match, name) => vars[name] ?? match);
+        return strategies.map(strategy => {
+            let locator = strategy.css ? page.locator(fill(strategy.css))
+                : strategy.role ? page.getByRole(strategy.role, {
+                    name: strategy.name === undefined ? undefined : fill(strategy.name),
+                    exact: strategy.exact
+                })
+                : strategy.testId ? page.getByTestId(fill(strategy.testId))
+                : strategy.text ? page.getByText(fill(strategy.text), { exact: strategy.exact })
+                : strategy.label ? page.getByLabel(fill(strategy.label), { exact: strategy.exact })
+                : null;
+            if (!locator) {
+                throw new Error(`Selector "${key}" has a strategy without css, role, testId, text or label`);
+            }
+            if (strategy.within) locator = locator.locator(fill(strategy.within));
+            if (strategy.nth !== undefined) locator = locator.nth(strategy.nth);
+            return locator;
+        });
+    }
+
+    private async readRegistry(filePath: string): Promise<SelectorRegistryFile | null> {
+        let content: string;
+        try {
+            content = await fs.readFile(filePath, 'utf-8');
+        } catch {
+            return null;
+        }
+
+        try {
+            const registry = JSON.parse(content) as SelectorRegistryFile;
+            if (typeof registry.version !== 'number' || !registry.elements || typeof registry.elements !== 'object') {
+                throw new Error('expected a numeric "version" and an "elements" object');
+            }
+            if (registry.locales !== undefined && (!registry.locales || typeof registry.locales !== 'object')) {
+                throw new Error('expected "locales" to be an object');
+            }
+            return registry;
+        } catch (error) {
+            console.error(`Invalid selector registry ${filePath}:`, error);
+            return null;
+        }
+    }
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { parseNumber, toOrderRows } from './sellerCentralTables.js';
+
+const orderDate = (text: string) => toOrderRows([{ orderId: '111-1', orderDate: text }])[0].orderDate;
+
+describe('toOrderRows', () => {
+    it('reads order dates in the zone Seller Central printed', () => {
+        expect(orderDate('Oct 18, 2026 11:45 PM PDT')).toBe('2026-10-19T06:45:00.000Z');
+        expect(orderDate('Jan 5, 2026 12:10 AM EST')).toBe('2026-01-05T05:10:00.000Z');
+        expect(orderDate('Oct 18, 2026 9:00 AM IST')).toBe('2026-10-18T03:30:00.000Z');
+    });
+
+    it('keeps dates with an unknown zone or no date at all as shown', () => {
+        expect(orderDate('Oct 18, 2026 3:21 PM XYZ')).toBe('Oct 18, 2026 3:21 PM XYZ');
+        expect(orderDate('pending')).toBe('pending');
+    });
+
+    it('drops rows without an order ID', () => {
+        expect(toOrderRows([{ orderId: '', sku: 'SKU-1' }])).toEqual([]);
+    });
+});
+
+describe('parseNumber', () => {
+    it('follows the marketplace locale', () => {
+        expect(parseNumber('$1,234.56', 'en-US')).toBe(1234.56);
+        expect(parseNumber('1 234,56 $', 'fr-CA')).toBe(1234.56);
+        expect(parseNumber('n/a', 'en-US')).toBeUndefined();
+    });
+});
@@ -0,0 +1,120 @@
+// Scraping helpers for Seller Central's report tables (Manage Inventory, Manage Orders)
+
+// Column key and header pattern (case-insensitive regex source), most specific first
+// so e.g. "FNSKU" is claimed before the plain "SKU" pattern gets a chance.
+export type TableColumns = [string, string][];
+
+export type TableCells = Record<string, string>;
+
+export const INVENTORY_COLUMNS: TableColumns = [
+    ['fnsku', 'fnsku'],
+    ['asin', 'asin'],
+    ['sku', 'sku'],
+    ['condition', 'condition'],
+    ['price', 'price'],
+    ['availableQuantity', 'available'],
+    ['inboundQuantity', 'inbound'],
+    ['status', 'status']
+];
+
+export const ORDER_COLUMNS: TableColumns = [
+    ['orderId', 'order\\s*(id|number)'],
+    ['orderDate', 'order\\s*date|purchase\\s*date|date'],
+    ['asin', 'asin'],
+    ['sku', 'sku'],
+    ['quantity', 'quantity|qty'],
+    ['itemPrice', 'price|total'],
+    ['fulfillmentChannel', 'fulfil+ment|channel'],
+    ['status', 'status']
+];
+
+export const INVENTORY_CSV_COLUMNS: (keyof InventoryRow)[] = [
+    'sku', 'asin', 'fnsku', 'condition', 'price', 'availableQuantity', 'inboundQuantity', 'status'
+];
+
+export const ORDER_CSV_COLUMNS: (keyof OrderRow)[] = [
+    'orderId', 'orderDate', 'sku', 'asin', 'quantity', 'itemPrice', 'fulfillmentChannel', 'status'
+];
+
+/**
+ * Runs inside the page: maps table columns by their header text and returns the
+ * text of each mapped cell per body row. Must stay self-contained for page.evaluate.
+ */
+export function scrapeTable(columns: TableColumns): TableCells[] {
+    const normalize = (text: string | null | undefined) => (text ?? '').replace(/\s+/g, ' ').trim();
+
+    const headers = Array.from(document.querySelectorAll('table thead th')).map(th => normalize(th.textContent));
+    const indexes = new Map<string, number>();
+    headers.forEach((header, index) => {
+        const match = columns.find(([key, pattern]) => !indexes.has(key) && new RegExp(pattern, 'i').test(header));
+        if (match) indexes.set(match[0], index);
+    });
+
+    return Array.from(document.querySelectorAll('table tbody tr')).map(tr => {
+        const cells = Array.from(tr.querySelectorAll('td')).map(td => normalize(td.textContent));
+        return Object.fromEntries(
+            Array.from(indexes, ([key, index]) => [key, cells[index] ?? ''])
+        );
+    });
+}
+
+// Amounts follow the marketplace locale, e.g. "1,234.56" in en-US but "1 234,56 $" in fr-CA
+export function parseNumber(text: string | undefined, locale: string): number | undefined {
+    const decimal = new Intl.NumberFormat(locale).formatToParts(1.5).find(part => part.type === 'decimal')?.value ?? '.';
+    const digits = (text ?? '').replace(new RegExp(`[^\\d${decimal}-]`, 'g'), '').replace(decimal, '.');
+    const value = parseFloat(digits);
+    return Number.isFinite(value) ? value : undefined;
+}
+
+// UTC offsets of the zone abbreviations marketplaces print after dates (CST is US Central, IST India)
+const ZONE_OFFSETS: Record<string, string> = {
+    UTC: '+0000', GMT: '+0000', BST: '+0100', CET: '+0100', CEST: '+0200',
+    EST: '-0500', EDT: '-0400', CST: '-0600', CDT: '-0500', MST: '-0700', MDT: '-0600',
+    PST: '-0800', PDT: '-0700', AKST: '-0900', AKDT: '-0800', HST: '-1000',
+    IST: '+0530', JST: '+0900', AEST: '+1000', AEDT: '+1100'
+};
+
+/**
+ * Seller Central shows dates like "Oct 18, 2026 3:21 PM PDT" in the marketplace's zone.
+ * The abbreviation becomes a UTC offset, so an order near midnight keeps its date whatever
+ * zone this machine is in; a date with an unknown zone is kept as shown.
+ */
+function parseDate(text: string | undefined): string {
+    const shown = (text ?? '').trim();
+    const zoned = shown.match(/^(.*\S)\s+(?!AM$|PM$)([A-Z]{2,4})$/);
+    const offset = zoned ? ZONE_OFFSETS[zoned[2]] : '';
+    if (zoned && !offset) return shown;
+
+    const timestamp = Date.parse(zoned ? `${zoned[1]} GMT${offset}` : shown);
+    return Number.isNaN(timestamp) ? shown : new Date(timestamp).toISOString();
+}
+
+export function toInventoryRows(cells: TableCells[], locale = 'en-US'): InventoryRow[] {
+    return cells
+        .map(row => ({
+            sku: row.sku ?? '',
+            asin: row.asin ?? '',
+            fnsku: row.fnsku ?? '',
+            condition: row.condition ?? '',
+            price: parseNumber(row.price, locale),
+            availableQuantity: parseNumber(row.availableQuantity, locale),
+            inboundQuantity: parseNumber(row.inboundQuantity, locale),
+            status: row.status ?? ''
+        }))
+        .filter(row => row.sku || row.asin);
+}
+
+export function toOrderRows(cells: TableCells[], locale = 'en-US'): OrderRow[] {
+    return cells
+        .map(row => ({
+            orderId: row.orderId ?? '',
+            orderDate: parseDate(row.orderDate),
+            sku: row.sku ?? '',
+            asin: row.asin ?? '',
+            quantity: parseNumber(row.quantity, locale),
+            itemPrice: parseNumber(row.itemPrice, locale),
+            fulfillmentChannel: row.fulfillmentChannel ?? '',
+            status: row.status ?? ''
+        }))
+        .filter(row => row.orderId);
+}
@@ -0,0 +1,68 @@
+import path from 'path';
+
+// The account that existed before profiles; its session files stay where they always were
+export const DEFAULT_PROFILE: SellerProfile = {
+    name: 'default',
+    sellerCentralUrl: 'https://sellercentral.amazon.com',
+    currency: 'USD',
+    locale: 'en-US'
+};
+
+const PROFILE_NAME_PATTERN = /^[\w-]+$/;
+
+/**
+ * Profiles from saved automation settings. Settings written before profiles existed only
+ * have a sellerCentralUrl, which becomes the default profile's URL.
+ */
+export function migrateProfiles(saved: { profiles?: SellerProfile[]; sellerCentralUrl?: string }): SellerProfile[] {
+    if (saved.profiles?.length) return saved.profiles;
+    return [{ ...DEFAULT_PROFILE, sellerCentralUrl: saved.sellerCentralUrl ?? DEFAULT_PROFILE.sellerCentralUrl }];
+}
+
+// Throws on the first problem, worded for the settings screen
+export function validateProfiles(profiles: SellerProfile[], activeProfile: string) {
+    if (profiles.length === 0) {
+        throw new Error('At least one seller profile is required');
+    }
+
+    const names = new Set<string>();
+    for (const profile of profiles) {
+        if (!PROFILE_NAME_PATTERN.test(profile.name)) {
+            throw new Error(`Profile name "${profile.name}" may only contain letters, digits, - and _`);
+        }
+        if (names.has(profile.name)) {
+            throw new Error(`Profile name "${profile.name}" is used twice`);
+        }
+        names.add(profile.name);
+
+        if (!/^https?:\/\//.test(profile.sellerCentralUrl) || !URL.canParse(profile.sellerCentralUrl)) {
+            throw new Error(`Profile "${profile.name}" has an invalid Seller Central URL`);
+        }
+        if (!/^[A-Z]{3}$/.test(profile.currency)) {
+            throw new Error(`Profile "${profile.name}" needs a three-letter currency code such as USD or CAD`);
+        }
+        if (!isSupportedLocale(profile.locale)) {
+            throw new Error(`Profile "${profile.name}" has an unsupported locale "${profile.locale}"`);
+        }
+    }
+
+    if (!names.has(activeProfile)) {
+        throw new Error(`Active profile "${activeProfile}" does not exist`);
+    }
+}
+
+function isSupportedLocale(locale: string): boolean {
+    try {
+        return Intl.NumberFormat.supportedLocalesOf(locale).length > 0;
+    } catch {
+        // Not a well-formed language tag
+        return false;
+    }
+}
+
+// Where a profile keeps its storage state and setup config
+export function getProfileDir(profilesPath: string, profile: SellerProfile): string {
+    return profile.name === DEFAULT_PROFILE.name
+        ? profilesPath
+        : path.join(profilesPath, 'accounts', profile.name);
+}
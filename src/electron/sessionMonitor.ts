@@ -0,0 +1,99 @@
+import { BrowserContext } from 'playwright';
+
+export type StorageState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+// Cookies that carry the Seller Central login, e.g. at-main/sess-at-main/x-main (US) or at-acbca (CA)
+const AUTH_COOKIE_PATTERN = /^(at|sess-at|x|sst)-|^session-token$/;
+
+// Give resumed jobs a head start before the first check after launch
+const STARTUP_DELAY = 60 * 1000;
+
+// Earliest expiry of the login cookies, or undefined when they only last for the browser session
+export function getSessionExpiry(state: StorageState): Date | undefined {
+    const expiries = state.cookies
+        .filter(cookie => AUTH_COOKIE_PATTERN.test(cookie.name) && cookie.expires > 0)
+        .map(cookie => cookie.expires * 1000);
+    return expiries.length > 0 ? new Date(Math.min(...expiries)) : undefined;
+}
+
+/**
+ * Bring a recorded health up to date with the clock: remaining minutes are counted from now,
+ * and a session that was valid at the last check turns expiring or expired as time passes.
+ */
+export function describeSession(health: SessionHealth, warnBeforeMinutes: number, now = Date.now()): SessionHealth {
+    if (!health.expiresAt || health.state === 'expired' || health.state === 'unknown') {
+        return { ...health, remainingMinutes: undefined };
+    }
+
+    const remainingMinutes = Math.max(0, Math.floor((Date.parse(health.expiresAt) - now) / 60000));
+    const state = remainingMinutes === 0 ? 'expired'
+        : remainingMinutes <= warnBeforeMinutes ? 'expiring'
+        : 'valid';
+    return { ...health, state, remainingMinutes };
+}
+
+// Warning for the tray and notifications, or null while the session is fine
+export function describeSessionWarning(health: SessionHealthEvent): string | null {
+    switch (health.state) {
+        case 'expired':
+            return `The Seller Central session of profile "${health.profile}" has expired. Log in again before the next batch.`;
+        case 'expiring':
+            return `The Seller Central session of profile "${health.profile}" expires in ${health.remainingMinutes} minutes.`;
+        default:
+            return null;
+    }
+}
+
+/**
+ * Runs the session check every `intervalMinutes` while enabled. The check itself (one cheap
+ * Seller Central navigation per profile) lives in AutomationManager.
+ */
+export class SessionMonitor {
+    private timer: NodeJS.Timeout | null = null;
+    private running: Promise<void> | null = null;
+
+    constructor(
+        private getSettings: () => SessionMonitorSettings,
+        private checkAll: () => Promise<void>
+    ) {}
+
+    start() {
+        this.schedule(STARTUP_DELAY);
+    }
+
+    // Pick up a changed interval right away instead of after the current wait
+    restart() {
+        this.stop();
+        this.schedule(this.getInterval());
+    }
+
+    stop() {
+        if (this.timer) clearTimeout(this.timer);
+        this.timer = null;
+    }
+
+    // Check right away, joining a check that is already running
+    checkNow(): Promise<void> {
+        if (!this.running) {
+            this.running = this.checkAll().finally(() => {
+                this.running = null;
+            });
+        }
+        return this.running;
+    }
+
+    private schedule(delay: number) {
+        const timer = setTimeout(async () => {
+            if (this.getSettings().enabled) {
+                await this.checkNow().catch(error => console.error('Session check failed:', error));
+            }
+            // restart() or stop() may have replaced this timer during the check
+            if (this.timer === timer) this.schedule(this.getInterval());
+        }, delay);
+        this.timer = timer;
+    }
+
+    private getInterval() {
+        return Math.max(1, this.getSettings().intervalMinutes) * 60 * 1000;
+    }
+}
@@ -0,0 +1,78 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { safeStorage } from 'electron';
+import { StorageState } from './sessionMonitor.js';
+
+const ENCRYPTED_EXTENSION = '.enc';
+
+/**
+ * Seller Central storage state (session cookies and local storage) encrypted at rest with
+ * Electron's safeStorage, i.e. a key held by the OS keychain. Browser contexts receive the
+ * decrypted state as an object, so it never touches the disk in plain text.
+ *
+ * Paths name the encrypted file (`storage.enc`); a plaintext `storage.json` left next to it
+ * by an older version is encrypted and deleted the first time the state is read.
+ */
+export async function loadStorageState(encryptedPath: string): Promise<StorageState | undefined> {
+    await migratePlaintextState(encryptedPath);
+    return readEncryptedJson<StorageState>(encryptedPath);
+}
+
+export async function saveStorageState(encryptedPath: string, state: StorageState) {
+    await writeEncryptedJson(encryptedPath, state);
+}
+
+// Any JSON value encrypted with safeStorage, or undefined when the file doesn't exist
+export async function readEncryptedJson<T>(encryptedPath: string): Promise<T | undefined> {
+    let encrypted: Buffer;
+    try {
+        encrypted = await fs.readFile(encryptedPath);
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+        throw error;
+    }
+
+    assertEncryptionAvailable();
+    return JSON.parse(safeStorage.decryptString(encrypted)) as T;
+}
+
+export async function writeEncryptedJson(encryptedPath: string, value: unknown) {
+    assertEncryptionAvailable();
+    const encrypted = safeStorage.encryptString(JSON.stringify(value));
+
+    // Write and rename so a crash can't leave a half-written file behind
+    const tempPath = `${encryptedPath}.tmp`;
+    await fs.mkdir(path.dirname(encryptedPath), { recursive: true });
+    await fs.writeFile(tempPath, encrypted, { mode: 0o600 });
+    await fs.rename(tempPath, encryptedPath);
+}
+
+// Encrypt a storage state saved in plain JSON by an older version, then delete the plaintext
+export async function migratePlaintextState(encryptedPath: string) {
+    const plaintextPath = getPlaintextPath(encryptedPath);
+    let plaintext: string;
+    try {
+        plaintext = await fs.readFile(plaintextPath, 'utf-8');
+    } catch {
+        return;
+    }
+
+    // A newer encrypted state wins over a stale plaintext copy
+    const hasEncrypted = await fs.access(encryptedPath).then(() => true).catch(() => false);
+    if (!hasEncrypted) {
+        await saveStorageState(encryptedPath, JSON.parse(plaintext) as StorageState);
+    }
+    await fs.rm(plaintextPath, { force: true });
+    console.log(`Encrypted Seller Central session ${plaintextPath} -> ${encryptedPath}`);
+}
+
+function getPlaintextPath(encryptedPath: string): string {
+    return path.join(path.dirname(encryptedPath), `${path.basename(encryptedPath, ENCRYPTED_EXTENSION)}.json`);
+}
+
+function assertEncryptionAvailable() {
+    // Without a keychain there is nowhere safe to keep the key; refuse rather than store plain text
+    if (!safeStorage.isEncryptionAvailable()) {
+        throw new Error('OS encryption (keychain) is not available, so Seller Central secrets cannot be stored securely');
+    }
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { decodeBase32, generateTotp, getTotpSecondsRemaining } from './totp.js';
+
+// RFC 6238 appendix B: SHA1 secret "12345678901234567890", here with the last 6 of its 8 digits
+const RFC_SECRET = 'GEZDGNBVGY3TQOJQGEZDGNBVGY3TQOJQ';
+const RFC_VECTORS: [number, string][] = [
+    [59, '287082'],
+    [1111111109, '081804'],
+    [1111111111, '050471'],
+    [1234567890, '005924'],
+    [2000000000, '279037'],
+    [20000000000, '353130']
+];
+
+describe('generateTotp', () => {
+    it.each(RFC_VECTORS)('matches the RFC 6238 code at %i seconds', (seconds, code) => {
+        expect(generateTotp(RFC_SECRET, seconds * 1000)).toBe(code);
+    });
+
+    it('accepts the secret the way Amazon shows it', () => {
+        const shown = 'gezd gnbv gy3t qojq gezd gnbv gy3t qojq';
+        expect(generateTotp(shown, 59000)).toBe(generateTotp(RFC_SECRET, 59000));
+    });
+});
+
+describe('decodeBase32', () => {
+    it('decodes with padding and spaces', () => {
+        expect(decodeBase32('GEZDGNBV GY3TQOJQ').toString('ascii')).toBe('1234567890');
+        expect(decodeBase32('MZXW6===').toString('ascii')).toBe('foo');
+    });
+
+    it('rejects empty secrets and non-base32 characters', () => {
+        expect(() => decodeBase32(' = ')).toThrow('empty');
+        expect(() => decodeBase32('ABC1')).toThrow('"1"');
+    });
+});
+
+describe('getTotpSecondsRemaining', () => {
+    it('counts down to the next 30 second step', () => {
+        expect(getTotpSecondsRemaining(0)).toBe(30);
+        expect(getTotpSecondsRemaining(59000)).toBe(1);
+        expect(getTotpSecondsRemaining(61500)).toBe(29);
+    });
+});
@@ -0,0 +1,49 @@
+import { createHmac } from 'crypto';
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const STEP_SECONDS = 30;
+const DIGITS = 6;
+
+/**
+ * Authenticator-app secret as shown by Amazon's two-step verification setup
+ * ("ABCD EFGH ..."): base32, spaces and padding allowed, case ignored.
+ */
+export function decodeBase32(secret: string): Buffer {
+    const normalized = secret.replace(/[\s=]/g, '').toUpperCase();
+    if (!normalized) {
+        throw new Error('The authenticator secret is empty');
+    }
+
+    const bytes: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+    for (const char of normalized) {
+        const value = BASE32_ALPHABET.indexOf(char);
+        if (value === -1) {
+            throw new Error(`The authenticator secret contains "${char}", which is not a base32 character`);
+        }
+        buffer = (buffer << 5) | value;
+        bits += 5;
+        if (bits >= 8) {
+            bits -= 8;
+            bytes.push((buffer >> bits) & 0xff);
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+// RFC 6238 one-time code (HMAC-SHA1, 30 second steps, 6 digits), the kind Amazon accepts
+export function generateTotp(secret: string, now = Date.now()): string {
+    const counter = Buffer.alloc(8);
+    counter.writeBigUInt64BE(BigInt(Math.floor(now / 1000 / STEP_SECONDS)));
+
+    const hmac = createHmac('sha1', decodeBase32(secret)).update(counter).digest();
+    const offset = hmac[hmac.length - 1] & 0x0f;
+    const code = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** DIGITS;
+    return code.toString().padStart(DIGITS, '0');
+}
+
+// Seconds until the current code rolls over
+export function getTotpSecondsRemaining(now = Date.now()): number {
+    return STEP_SECONDS - Math.floor(now / 1000) % STEP_SECONDS;
+}
@@ -0,0 +1,50 @@
+import path from 'path';
+import fs from 'fs/promises';
+import { createRequire } from 'module';
+
+const TRACE_EXTENSION = '.zip';
+
+// Automation IDs are UUIDs; anything else could escape the traces directory
+export function getTraceFile(tracesPath: string, automationId: string): string | null {
+    if (!/^[\w-]+$/.test(automationId)) return null;
+    return path.join(tracesPath, `${automationId}${TRACE_EXTENSION}`);
+}
+
+// Saved traces, newest first
+export async function listTraceFiles(tracesPath: string): Promise<Omit<TraceInfo, 'request'>[]> {
+    let files: string[];
+    try {
+        files = await fs.readdir(tracesPath);
+    } catch {
+        return [];
+    }
+
+    const traces = await Promise.all(files
+        .filter(file => file.endsWith(TRACE_EXTENSION))
+        .map(async file => {
+            const stats = await fs.stat(path.join(tracesPath, file));
+            return {
+                automationId: path.basename(file, TRACE_EXTENSION),
+                recordedAt: stats.mtime.toISOString(),
+                size: stats.size
+            };
+        }));
+    return traces.sort((a, b) => b.recordedAt.localeCompare(a.recordedAt));
+}
+
+// Keep only the newest `keep` traces
+export async function pruneTraces(tracesPath: string, keep: number) {
+    const stale = (await listTraceFiles(tracesPath)).slice(Math.max(keep, 0));
+    await Promise.all(stale.map(trace =>
+        fs.rm(path.join(tracesPath, `${trace.automationId}${TRACE_EXTENSION}`), { force: true })
+    ));
+}
+
+/**
+ * Static files of Playwright's trace viewer, shipped inside playwright-core. Served over
+ * HTTP because the viewer relies on a service worker, which file:// pages can't register.
+ */
+export function getTraceViewerPath(): string {
+    const require = createRequire(import.meta.url);
+    return path.join(path.dirname(require.resolve('playwright-core/package.json')), 'lib', 'vite', 'traceViewer');
+}
@@ -1,6 +1,8 @@
 import {BrowserWindow, Tray, app, Menu} from 'electron';
 import { getAssetPath } from './pathResolver.js';
 import path from 'path';
+import { subscribeAutomationEvents } from './automationEvents.js';
+import { describeSessionWarning } from './sessionMonitor.js';
 
 export function createTray(mainWindow: BrowserWindow){
     const tray = new Tray(path.join(getAssetPath(), process.platform === 'darwin' ? 'trayIconTemplate.png' : 'trayIcon.png'));
@@ -15,4 +17,23 @@ export function createTray(mainWindow: BrowserWindow){
             app.dock.show();
         }
     });
+
+    // Warn about expiring Seller Central sessions, one line per profile
+    const sessionWarnings = new Map<string, string>();
+    subscribeAutomationEvents(event => {
+        if (event.type !== 'sessionHealth') return;
+
+        const warning = describeSessionWarning(event.payload);
+        if (warning) {
+            sessionWarnings.set(event.payload.profile, warning);
+        } else {
+            sessionWarnings.delete(event.payload.profile);
+        }
+
+        tray.setToolTip(['SMRT Seller', ...sessionWarnings.values()].join('\n'));
+        if (process.platform === 'darwin') {
+            // Shown next to the menu bar icon
+            tray.setTitle(sessionWarnings.size > 0 ? '⚠' : '');
+        }
+    });
 }
\ No newline at end of file
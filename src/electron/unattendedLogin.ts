@@ -0,0 +1,122 @@
+import { Locator, Page } from 'playwright';
+import { SelectorTimeoutError, gotoPage } from './automationErrors.js';
+import { LocalizedSelectors } from './selectorRegistry.js';
+import { generateTotp, getTotpSecondsRemaining } from './totp.js';
+
+// Sign-in pages we know how to answer, checked in this order; a challenge always wins
+const SIGN_IN_PAGES = ['signIn.challenge', 'signIn.otpCode', 'signIn.password', 'signIn.email'];
+
+// Email, password, one-time code and a spare for an extra redirect
+const MAX_SIGN_IN_STEPS = 5;
+
+// A fresh code rather than one that expires while the form is submitted
+const MIN_TOTP_SECONDS = 5;
+
+/**
+ * Amazon showed something that needs a person: a CAPTCHA, an approval request, a page we
+ * don't recognize, or it rejected what we entered. The caller falls back to the
+ * interactive re-login popup.
+ */
+export class LoginChallengeError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LoginChallengeError';
+    }
+}
+
+/**
+ * Sign in to Seller Central with stored credentials, answering the email, password and
+ * one-time code pages as they come. Resolves once the page is back on Seller Central.
+ */
+export async function signInUnattended(
+    page: Page,
+    baseUrl: string,
+    credentials: SellerCredentials,
+    selectors: LocalizedSelectors
+): Promise<void> {
+    await gotoPage(page, `${baseUrl}/home`);
+
+    const answered = new Set<string>();
+    for (let step = 0; step < MAX_SIGN_IN_STEPS; step++) {
+        if (isSignedIn(page.url(), baseUrl)) return;
+
+        let signInPage: { key: string; locator: Locator };
+        try {
+            signInPage = await selectors.locateAny(page, SIGN_IN_PAGES, { timeout: 15000 });
+        } catch (error) {
+            if (!(error instanceof SelectorTimeoutError)) throw error;
+            if (isSignedIn(page.url(), baseUrl)) return;
+            throw new LoginChallengeError(`Unexpected sign-in page ${page.url()}`);
+        }
+
+        const { key, locator } = signInPage;
+        if (key === 'signIn.challenge') {
+            throw new LoginChallengeError('Amazon asked for a CAPTCHA or verification');
+        }
+        // The same form coming back means Amazon rejected what we entered
+        if (answered.has(key)) {
+            throw new LoginChallengeError(`Amazon did not accept the ${describeStep(key)}`);
+        }
+        answered.add(key);
+
+        switch (key) {
+            case 'signIn.email':
+                await locator.fill(credentials.email);
+                await submit(page, await selectors.locate(page, 'signIn.continue', { timeout: 5000 }));
+                break;
+
+            case 'signIn.password': {
+                // Some sign-in pages ask for the email and password together
+                const email = await selectors.find(page, 'signIn.email');
+                if (email && await email.isEditable().catch(() => false) && !await email.inputValue()) {
+                    await email.fill(credentials.email);
+                }
+                await locator.fill(credentials.password);
+                await submit(page, await selectors.locate(page, 'signIn.submit', { timeout: 5000 }));
+                break;
+            }
+
+            case 'signIn.otpCode': {
+                if (!credentials.totpSecret) {
+                    throw new LoginChallengeError('Amazon asked for a one-time code but no authenticator secret is stored');
+                }
+                const remaining = getTotpSecondsRemaining();
+                if (remaining < MIN_TOTP_SECONDS) {
+                    await page.waitForTimeout(remaining * 1000);
+                }
+                await locator.fill(generateTotp(credentials.totpSecret));
+                // Skip the code next time on this device, as long as Amazon remembers the cookies
+                const rememberDevice = await selectors.find(page, 'signIn.rememberDevice');
+                if (rememberDevice) await rememberDevice.check().catch(() => {});
+                await submit(page, await selectors.locate(page, 'signIn.otpSubmit', { timeout: 5000 }));
+                break;
+            }
+        }
+    }
+
+    if (isSignedIn(page.url(), baseUrl)) return;
+    throw new LoginChallengeError('Sign-in did not finish');
+}
+
+// Click and wait for the next page, which may be the same form again if Amazon rejected it
+async function submit(page: Page, button: Locator) {
+    await Promise.all([
+        page.waitForEvent('domcontentloaded', { timeout: 30000 }),
+        button.click()
+    ]);
+}
+
+function isSignedIn(url: string, baseUrl: string): boolean {
+    return url.startsWith(baseUrl) && !url.includes('/ap/') && !url.includes('signin');
+}
+
+function describeStep(key: string): string {
+    switch (key) {
+        case 'signIn.email':
+            return 'email address';
+        case 'signIn.password':
+            return 'password';
+        default:
+            return 'one-time code';
+    }
+}
@@ -6,6 +6,31 @@ type AutomationDisplay = {
   [id: string]: AutomationStatus;
 };
 
+const FINISHED_STATUSES: AutomationStatus['status'][] = ['completed', 'error', 'cancelled'];
+
+const LISTING_CONDITIONS: ListingCondition[] = ['Used - Like New', 'Used - Very Good', 'Used - Good', 'Used - Acceptable'];
+
+// Remaining time like "3h 20m"
+function formatMinutes(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+}
+
+function describeSession(session: SessionHealth): string {
+  switch (session.state) {
+    case 'expired':
+      return 'Seller Central session expired. Log in again before the next batch.';
+    case 'expiring':
+      return `Seller Central session expires in ${formatMinutes(session.remainingMinutes ?? 0)}. Log in again between batches.`;
+    case 'valid':
+      return session.remainingMinutes !== undefined
+        ? `Seller Central session valid for ${formatMinutes(session.remainingMinutes)}`
+        : 'Seller Central session valid';
+    default:
+      return 'Seller Central session not checked yet';
+  }
+}
+
 function App() {
   const [setupStatus, setSetupStatus] = useState<SetupStatus | null>(null);
   const [isSettingUp, setIsSettingUp] = useState(false);
@@ -25,16 +50,32 @@ function App() {
   });
   const [isPrinterExpanded, setIsPrinterExpanded] = useState(false);
   const [isCustomSize, setIsCustomSize] = useState(false);
+  const [batchResult, setBatchResult] = useState<BatchImportResult | null>(null);
+  const [automationSettings, setAutomationSettings] = useState<AutomationSettings | null>(null);
+  const [artifacts, setArtifacts] = useState<ArtifactBundleExport | null>(null);
+  const [traces, setTraces] = useState<TraceInfo[] | null>(null);
+  const [isCheckingSession, setIsCheckingSession] = useState(false);
+  const [credentials, setCredentials] = useState<CredentialsInfo | null>(null);
+  const [credentialForm, setCredentialForm] = useState<SellerCredentials>({ email: '', password: '', totpSecret: '' });
+  const [credentialError, setCredentialError] = useState<string | null>(null);
+  const [pricingDraft, setPricingDraft] = useState<PricingRules | null>(null);
+  const [pricingError, setPricingError] = useState<string | null>(null);
 
   useEffect(() => {
     // Get initial setup status
     window.electron.getSetupStatus().then(setSetupStatus);
+    window.electron.getAutomationSettings().then(settings => {
+      setAutomationSettings(settings);
+      setPricingDraft(settings.pricing);
+    });
+    window.electron.getCredentials().then(setCredentials);
 
     // Subscribe to automation status updates
     const unsubscribeStatus = window.electron.subscribeAutomationStatus((status) => {
       setAutomations(prev => {
-        if (status.status === 'completed' || status.status === 'error') {
-          // Remove completed/errored automations after 5 seconds
+        // Failed automations stay listed so they can be retried
+        if (FINISHED_STATUSES.includes(status.status) && status.status !== 'error') {
+          // Remove completed/cancelled automations after 5 seconds
           setTimeout(() => {
             setAutomations(prev => {
               const { [status.id]: _, ...rest } = prev;
@@ -45,13 +86,18 @@ function App() {
         return { ...prev, [status.id]: status };
       });
 
-      if (status.status === 'completed' || status.status === 'error') {
+      if (FINISHED_STATUSES.includes(status.status)) {
         // Refresh setup status after automation completes
         window.electron.getSetupStatus().then(setSetupStatus);
         setIsSettingUp(false);
       }
     });
 
+    // Background session checks report here; the status shown is the active profile's
+    const unsubscribeSession = window.electron.subscribeSessionHealth(() => {
+      window.electron.getSetupStatus().then(setSetupStatus);
+    });
+
     // Subscribe to active automation count updates
     const unsubscribeCount = window.electron.subscribeActiveAutomationsCount((count) => {
       setActiveCount(count);
@@ -73,6 +119,7 @@ function App() {
 
     return () => {
       unsubscribeStatus();
+      unsubscribeSession();
       unsubscribeCount();
     };
   }, []);
@@ -271,6 +318,236 @@ function App() {
     }
   };
 
+  const handleBatchFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Reset the input so picking the same file again still triggers a change
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const content = await file.text();
+      const format: BatchImportFormat = file.name.toLowerCase().endsWith('.json') ? 'json' : 'csv';
+      const result = await window.electron.importBatch(content, format);
+      setBatchResult(result);
+    } catch (error) {
+      console.error('Batch import failed:', error);
+      alert('Batch import failed. Please check the file and try again.');
+    }
+  };
+
+  const handleSaveBatchReport = async () => {
+    if (!batchResult?.batchId) return;
+    try {
+      await window.electron.saveBatchReport(batchResult.batchId);
+    } catch (error) {
+      console.error('Failed to save batch report:', error);
+    }
+  };
+
+  const handleCancelAutomation = async (id: string) => {
+    try {
+      await window.electron.cancelAutomation(id);
+    } catch (error) {
+      console.error('Failed to cancel automation:', error);
+    }
+  };
+
+  const handleRetryAutomation = async (id: string) => {
+    try {
+      await window.electron.retryAutomation(id);
+    } catch (error) {
+      console.error('Failed to retry automation:', error);
+    }
+  };
+
+  const handleShowArtifacts = async (id: string) => {
+    if (artifacts?.automationId === id) {
+      setArtifacts(null);
+      return;
+    }
+    try {
+      setArtifacts(await window.electron.getArtifacts(id));
+    } catch (error) {
+      console.error('Failed to load failure artifacts:', error);
+    }
+  };
+
+  const handleDismissAutomation = (id: string) => {
+    if (artifacts?.automationId === id) setArtifacts(null);
+    setAutomations(prev => {
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    });
+  };
+
+  const handleTogglePause = async (status: AutomationStatus) => {
+    try {
+      if (status.status === 'paused') {
+        await window.electron.resumeAutomation(status.id);
+      } else {
+        await window.electron.pauseAutomation(status.id);
+      }
+    } catch (error) {
+      console.error('Failed to pause/resume automation:', error);
+    }
+  };
+
+  const handleSimulationModeChange = async (simulationMode: boolean) => {
+    try {
+      setAutomationSettings(await window.electron.saveAutomationSettings({ simulationMode }));
+      // The simulated account has its own setup state
+      setSetupStatus(await window.electron.getSetupStatus());
+    } catch (error) {
+      console.error('Failed to change simulation mode:', error);
+    }
+  };
+
+  const handleProfileChange = async (activeProfile: string) => {
+    try {
+      setAutomationSettings(await window.electron.saveAutomationSettings({ activeProfile }));
+      // Every profile has its own login and print settings
+      setSetupStatus(await window.electron.getSetupStatus());
+      setCredentials(await window.electron.getCredentials());
+      setCredentialError(null);
+      const savedSettings = await window.electron.getPrintSettings();
+      setPrintSettings(savedSettings);
+      setIsCustomSize(savedSettings.labelSize === 'CUSTOM');
+      if (savedSettings.printer) {
+        setSelectedPrinter(savedSettings.printer);
+      }
+    } catch (error) {
+      console.error('Failed to switch seller profile:', error);
+    }
+  };
+
+  const handleCheckSession = async () => {
+    setIsCheckingSession(true);
+    try {
+      setSetupStatus(await window.electron.checkSession());
+    } catch (error) {
+      console.error('Failed to check session:', error);
+    } finally {
+      setIsCheckingSession(false);
+    }
+  };
+
+  const handleSaveCredentials = async () => {
+    try {
+      setCredentials(await window.electron.saveCredentials(credentialForm));
+      // The password and secret are never shown again once stored
+      setCredentialForm({ email: '', password: '', totpSecret: '' });
+      setCredentialError(null);
+    } catch (error) {
+      setCredentialError(error instanceof Error ? error.message : 'Failed to save credentials');
+    }
+  };
+
+  const handleDeleteCredentials = async () => {
+    try {
+      setCredentials(await window.electron.deleteCredentials());
+      setCredentialError(null);
+    } catch (error) {
+      console.error('Failed to delete credentials:', error);
+    }
+  };
+
+  const handleMultiplierChange = (condition: ListingCondition, value: string) => {
+    if (!pricingDraft) return;
+    const conditionMultipliers = { ...pricingDraft.conditionMultipliers };
+    if (value === '') {
+      // An empty multiplier means the condition keeps the requested price
+      delete conditionMultipliers[condition];
+    } else {
+      conditionMultipliers[condition] = Number(value);
+    }
+    setPricingDraft({ ...pricingDraft, conditionMultipliers });
+  };
+
+  const handleSavePricing = async () => {
+    if (!pricingDraft) return;
+    try {
+      const saved = await window.electron.saveAutomationSettings({ pricing: pricingDraft });
+      setAutomationSettings(saved);
+      setPricingDraft(saved.pricing);
+      setPricingError(null);
+    } catch (error) {
+      setPricingError(error instanceof Error ? error.message : 'Failed to save pricing rules');
+    }
+  };
+
+  const handleTracingChange = async (enabled: boolean) => {
+    if (!automationSettings) return;
+    try {
+      setAutomationSettings(await window.electron.saveAutomationSettings({
+        tracing: { ...automationSettings.tracing, enabled }
+      }));
+    } catch (error) {
+      console.error('Failed to change tracing:', error);
+    }
+  };
+
+  const handleHeadlessChange = async (headless: boolean) => {
+    try {
+      setAutomationSettings(await window.electron.saveAutomationSettings({ headless }));
+    } catch (error) {
+      console.error('Failed to change browser mode:', error);
+    }
+  };
+
+  const handleToggleBrowser = async (status: AutomationStatus) => {
+    try {
+      await window.electron.setBrowserVisible(status.id, !status.browserVisible);
+    } catch (error) {
+      console.error('Failed to toggle browser view:', error);
+    }
+  };
+
+  const handleRefreshTraces = async () => {
+    try {
+      setTraces(await window.electron.listTraces());
+    } catch (error) {
+      console.error('Failed to list traces:', error);
+    }
+  };
+
+  const handleOpenTrace = async (id: string) => {
+    try {
+      if (!await window.electron.openTrace(id)) {
+        console.error(`No trace recorded for automation ${id}`);
+      }
+    } catch (error) {
+      console.error('Failed to open trace:', error);
+    }
+  };
+
+  const simulationToggle = automationSettings && (
+    <label className="simulation-toggle">
+      <input
+        type="checkbox"
+        checked={automationSettings.simulationMode}
+        onChange={(e) => handleSimulationModeChange(e.target.checked)}
+      />
+      Simulation mode (use the bundled fake Seller Central)
+    </label>
+  );
+
+  const profileSelector = automationSettings && automationSettings.profiles.length > 1 && (
+    <label className="profile-select">
+      Seller profile:
+      <select
+        value={automationSettings.activeProfile}
+        onChange={(e) => handleProfileChange(e.target.value)}
+      >
+        {automationSettings.profiles.map(profile => (
+          <option key={profile.name} value={profile.name}>
+            {profile.name} ({profile.sellerCentralUrl.replace(/^https?:\/\//, '')}, {profile.currency})
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+
   if (!setupStatus) {
     return <div className="App">
       <div className="app-header">
@@ -289,6 +566,7 @@ function App() {
         <div className="setup-container">
           <h2>Welcome to SMRT Seller</h2>
           <p>Before you can use the app, you need to set up your Amazon Seller Central account.</p>
+          {profileSelector}
           {!isSettingUp ? (
             <button 
               onClick={handleStartSetup}
@@ -302,6 +580,7 @@ function App() {
               The setup will complete automatically once you're logged in.
             </p>
           )}
+          {simulationToggle}
         </div>
       </div>
     );
@@ -315,6 +594,86 @@ function App() {
       <div className="main">
         <h2>Ready to automate!</h2>
         <p>Your Seller Central account is connected.</p>
+        {profileSelector}
+        {setupStatus.session && (
+          <div className={`session-health ${setupStatus.session.state}`}>
+            <span>
+              {describeSession(setupStatus.session)}
+              {setupStatus.session.error && ` (last check failed: ${setupStatus.session.error})`}
+              <span className="session-checked">
+                Checked {new Date(setupStatus.session.checkedAt).toLocaleTimeString()}
+              </span>
+            </span>
+            {(setupStatus.session.state === 'expiring' || setupStatus.session.state === 'expired') && (
+              <button onClick={handleStartSetup} disabled={isSettingUp}>
+                {isSettingUp ? 'Logging in...' : 'Log in again'}
+              </button>
+            )}
+            <button onClick={handleCheckSession} disabled={isCheckingSession}>
+              {isCheckingSession ? 'Checking...' : 'Check now'}
+            </button>
+          </div>
+        )}
+        {simulationToggle}
+        {automationSettings && (
+          <label className="simulation-toggle">
+            <input
+              type="checkbox"
+              checked={automationSettings.headless}
+              onChange={(e) => handleHeadlessChange(e.target.checked)}
+            />
+            Run automations in the background (no browser window)
+          </label>
+        )}
+
+        {/* Unattended sign-in */}
+        {credentials && (
+          <div className="batch-import">
+            <div className="batch-controls">
+              <span className="printer-label">Unattended sign-in:</span>
+              {credentials.email ? (
+                <>
+                  <span className="credentials-summary">
+                    {credentials.email}{credentials.hasTotp ? ' · one-time codes' : ''}
+                  </span>
+                  <button onClick={handleDeleteCredentials} className="print-button">
+                    Remove
+                  </button>
+                </>
+              ) : (
+                <span className="credentials-summary">Off (a person logs in when the session expires)</span>
+              )}
+            </div>
+            <div className="credentials-form">
+              <input
+                type="email"
+                placeholder="Email"
+                value={credentialForm.email}
+                onChange={(e) => setCredentialForm({ ...credentialForm, email: e.target.value })}
+              />
+              <input
+                type="password"
+                placeholder="Password"
+                value={credentialForm.password}
+                onChange={(e) => setCredentialForm({ ...credentialForm, password: e.target.value })}
+              />
+              <input
+                type="password"
+                placeholder="Authenticator secret (optional)"
+                value={credentialForm.totpSecret}
+                onChange={(e) => setCredentialForm({ ...credentialForm, totpSecret: e.target.value })}
+              />
+              <button
+                onClick={handleSaveCredentials}
+                className="print-button"
+                disabled={!credentialForm.email || !credentialForm.password}
+              >
+                {credentials.email ? 'Replace' : 'Save'}
+              </button>
+            </div>
+            {credentialError && <p className="batch-errors">{credentialError}</p>}
+          </div>
+        )}
         
         {/* Printer Settings */}
         <div className="printer-settings">
@@ -427,6 +786,189 @@ function App() {
           </div>
         </div>
 
+        {/* Pricing rules */}
+        {pricingDraft && (
+          <div className="batch-import">
+            <div className="batch-controls">
+              <span className="printer-label">Pricing:</span>
+              <label className="simulation-toggle trace-toggle">
+                <input
+                  type="checkbox"
+                  checked={pricingDraft.roundToNinetyNine}
+                  onChange={(e) => setPricingDraft({ ...pricingDraft, roundToNinetyNine: e.target.checked })}
+                />
+                Round to .99
+              </label>
+              <button onClick={handleSavePricing} className="print-button">
+                Save Pricing
+              </button>
+            </div>
+            <div className="pricing-rules">
+              {LISTING_CONDITIONS.map(condition => (
+                <label key={condition}>
+                  {condition} ×
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder="1"
+                    value={pricingDraft.conditionMultipliers[condition] ?? ''}
+                    onChange={(e) => handleMultiplierChange(condition, e.target.value)}
+                  />
+                </label>
+              ))}
+              <label>
+                Minimum price
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={pricingDraft.minimumPrice}
+                  onChange={(e) => setPricingDraft({ ...pricingDraft, minimumPrice: Number(e.target.value) })}
+                />
+              </label>
+              <label>
+                List Price formula
+                <input
+                  type="text"
+                  placeholder="Empty leaves List Price blank"
+                  value={pricingDraft.listPriceFormula}
+                  onChange={(e) => setPricingDraft({ ...pricingDraft, listPriceFormula: e.target.value })}
+                />
+              </label>
+              <label>
+                Without a price
+                <select
+                  value={pricingDraft.missingPriceMode}
+                  onChange={(e) => setPricingDraft({ ...pricingDraft, missingPriceMode: e.target.value as PricingRules['missingPriceMode'] })}
+                >
+                  <option value="required">Reject the listing</option>
+                  <option value="matchLowestUsed">Match lowest used minus</option>
+                </select>
+                {pricingDraft.missingPriceMode === 'matchLowestUsed' && (
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={pricingDraft.undercut}
+                    onChange={(e) => setPricingDraft({ ...pricingDraft, undercut: Number(e.target.value) })}
+                  />
+                )}
+              </label>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={pricingDraft.captureMarketPrices}
+                  onChange={(e) => setPricingDraft({ ...pricingDraft, captureMarketPrices: e.target.checked })}
+                />
+                Record competing offers for every listing
+              </label>
+              <label>
+                <input
+                  type="checkbox"
+                  checked={pricingDraft.sanityGuard.enabled}
+                  onChange={(e) => setPricingDraft({
+                    ...pricingDraft,
+                    sanityGuard: { ...pricingDraft.sanityGuard, enabled: e.target.checked }
+                  })}
+                />
+                Only allow prices from
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={pricingDraft.sanityGuard.minPrice}
+                  onChange={(e) => setPricingDraft({
+                    ...pricingDraft,
+                    sanityGuard: { ...pricingDraft.sanityGuard, minPrice: Number(e.target.value) }
+                  })}
+                />
+                to
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={pricingDraft.sanityGuard.maxPrice}
+                  onChange={(e) => setPricingDraft({
+                    ...pricingDraft,
+                    sanityGuard: { ...pricingDraft.sanityGuard, maxPrice: Number(e.target.value) }
+                  })}
+                />
+              </label>
+            </div>
+            {pricingError && <p className="batch-errors">{pricingError}</p>}
+          </div>
+        )}
+
+        {/* Batch Import */}
+        <div className="batch-import">
+          <div className="batch-controls">
+            <span className="printer-label">Batch Listings:</span>
+            <label className="print-button">
+              Import CSV / JSON
+              <input type="file" accept=".csv,.json" onChange={handleBatchFileChange} hidden />
+            </label>
+            {batchResult?.batchId && (
+              <button onClick={handleSaveBatchReport} className="print-button">
+                Download Report
+              </button>
+            )}
+          </div>
+          {batchResult?.batchId && (
+            <p className="batch-summary">Queued {batchResult.accepted} listings.</p>
+          )}
+          {batchResult && batchResult.errors.length > 0 && (
+            <ul className="batch-errors">
+              {batchResult.errors.map(rowError => (
+                <li key={rowError.row}>
+                  {rowError.row > 0 ? `Row ${rowError.row}: ` : ''}{rowError.errors.join('; ')}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {/* Trace history */}
+        {automationSettings && (
+          <div className="batch-import">
+            <div className="batch-controls">
+              <label className="simulation-toggle trace-toggle">
+                <input
+                  type="checkbox"
+                  checked={automationSettings.tracing.enabled}
+                  onChange={(e) => handleTracingChange(e.target.checked)}
+                />
+                Record traces (keeps the last {automationSettings.tracing.maxTraces})
+              </label>
+              <button onClick={handleRefreshTraces} className="print-button">
+                {traces ? 'Refresh History' : 'Show History'}
+              </button>
+            </div>
+            {traces && traces.length === 0 && (
+              <p className="batch-summary">No traces recorded yet.</p>
+            )}
+            {traces && traces.length > 0 && (
+              <ul className="trace-history">
+                {traces.map(trace => (
+                  <li key={trace.automationId}>
+                    <span>
+                      {new Date(trace.recordedAt).toLocaleString()} · {trace.request?.type ?? 'unknown'}
+                      {trace.request?.params?.sku && ` · ${trace.request.params.sku}`}
+                      {` · ${(trace.size / 1024 / 1024).toFixed(1)} MB`}
+                    </span>
+                    <button
+                      onClick={() => handleOpenTrace(trace.automationId)}
+                      className="automation-action-button"
+                    >
+                      Open
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+
         {/* Automation Status Display */}
         <div className="automation-list">
           {activeCount > 0 && (
@@ -444,9 +986,13 @@ function App() {
                 <div className="automation-header">
                   <span className="automation-title">
                     {displayId}
+                    {status.profile && automationSettings && automationSettings.profiles.length > 1 && (
+                      <span className="automation-profile">{status.profile}</span>
+                    )}
                   </span>
                   <span className={`automation-status ${status.status}`}>
                     {status.status.toUpperCase()}
+                    {status.queuePosition !== undefined && ` #${status.queuePosition}`}
                   </span>
                 </div>
                 <div className="progress-container">
@@ -456,7 +1002,88 @@ function App() {
                   />
                 </div>
                 {status.message && (
-                  <p className="automation-message">{status.message}</p>
+                  <p className="automation-message">
+                    {status.errorClass && <span className="automation-error-class">{status.errorClass}</span>}
+                    {status.message}
+                  </p>
+                )}
+                {!FINISHED_STATUSES.includes(status.status) && (
+                  <div className="automation-actions">
+                    {status.status !== 'queued' && (
+                      <button
+                        onClick={() => handleToggleBrowser(status)}
+                        className="automation-action-button"
+                      >
+                        {status.browserVisible ? 'Hide browser' : 'Show browser'}
+                      </button>
+                    )}
+                    {status.status !== 'queued' && (
+                      <button
+                        onClick={() => handleTogglePause(status)}
+                        className="automation-action-button"
+                      >
+                        {status.status === 'paused' ? 'Resume' : 'Pause'}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleCancelAutomation(id)}
+                      className="automation-action-button cancel"
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                )}
+                {status.status === 'error' && (
+                  <div className="automation-actions">
+                    <button
+                      onClick={() => handleRetryAutomation(id)}
+                      className="automation-action-button"
+                    >
+                      Retry
+                    </button>
+                    <button
+                      onClick={() => handleShowArtifacts(id)}
+                      className="automation-action-button"
+                    >
+                      {artifacts?.automationId === id ? 'Hide details' : 'Details'}
+                    </button>
+                    {automationSettings?.tracing.enabled && (
+                      <button
+                        onClick={() => handleOpenTrace(id)}
+                        className="automation-action-button"
+                      >
+                        Trace
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDismissAutomation(id)}
+                      className="automation-action-button"
+                    >
+                      Dismiss
+                    </button>
+                  </div>
+                )}
+                {artifacts?.automationId === id && (
+                  <div className="automation-artifacts">
+                    <p><strong>URL:</strong> {artifacts.url || 'No page open'}</p>
+                    <p><strong>Captured:</strong> {new Date(artifacts.capturedAt).toLocaleString()}</p>
+                    <pre className="artifact-error">{artifacts.error}</pre>
+                    {artifacts.screenshotDataUrl && (
+                      <img src={artifacts.screenshotDataUrl} alt="Page at failure" className="artifact-screenshot" />
+                    )}
+                    {artifacts.diagnostics.length > 0 && (
+                      <ul className="artifact-diagnostics">
+                        {artifacts.diagnostics.map((diagnostic, index) => (
+                          <li key={index} className={diagnostic.type}>
+                            [{diagnostic.level ?? diagnostic.type}] {diagnostic.text}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                    <a href={`http://localhost:3456/automation/${id}/artifacts`} download className="automation-action-button">
+                      Download bundle
+                    </a>
+                  </div>
                 )}
               </div>
             );
@@ -1,21 +1,44 @@
 #!/bin/bash
 
+BASE_URL="http://localhost:3456"
+
 # Generate a unique SKU based on current timestamp
 TIMESTAMP=$(date +%Y%m%d%H%M%S)
 SKU="TEST_${TIMESTAMP}"
 
-# Make the curl request
-curl -X POST http://localhost:3456/automation/start \
+# Queue the listing; the server answers 202 with the automation ID right away
+RESPONSE=$(curl -s -X POST "$BASE_URL/automation/start" \
   -H "Content-Type: application/json" \
   -d '{
     "type": "createListing",
     "params": {
       "asin": "0140268308",
       "sku": "'$SKU'",
-      "price": "9.99",
+      "price": 9.99,
       "condition": "Used - Very Good",
       "conditionNotes": "Item is in very good condition with minimal wear."
     }
-  }'
+  }')
+
+echo "$RESPONSE"
+echo -e "\nRequest sent with SKU: $SKU"
+
+ID=$(echo "$RESPONSE" | grep -o '"id":"[^"]*"' | head -1 | cut -d'"' -f4)
+if [ -z "$ID" ]; then
+  echo "No automation ID in the response"
+  exit 1
+fi
 
-echo "\n\nRequest sent with SKU: $SKU" 
+# Poll the status endpoint until the job has finished
+while true; do
+  JOB=$(curl -s "$BASE_URL/automation/$ID")
+  STATE=$(echo "$JOB" | grep -o '"state":"[^"]*"' | head -1 | cut -d'"' -f4)
+  echo "Automation $ID: ${STATE:-unknown}"
+  case "$STATE" in
+    succeeded|failed|cancelled)
+      echo "$JOB"
+      break
+      ;;
+  esac
+  sleep 5
+done
@@ -23,11 +23,36 @@ type CustomLabelSize = {
   height: number; // in inches
 };
 
+// What kind of failure an automation hit (see automationErrors.ts)
+type AutomationErrorClass =
+    | 'authentication'
+    | 'selectorTimeout'
+    | 'navigation'
+    | 'validation'
+    | 'restrictedAsin'
+    | 'cancelled'
+    | 'printing'
+    | 'unknown';
+
+// What to do once a failure's retries are used up
+type RetryEscalation = 'none' | 'notify' | 'reauthenticate';
+
+type RetryPolicy = {
+    maxRetries: number;
+    backoffMs: number; // Delay before the first retry
+    backoffMultiplier: number; // Each further retry waits this many times longer
+    escalation: RetryEscalation;
+}
+
 type AutomationStatus = {
     id: string;
-    status: 'running' | 'paused' | 'error' | 'completed';
+    status: 'queued' | 'running' | 'paused' | 'error' | 'completed' | 'cancelled';
     message?: string;
+    errorClass?: AutomationErrorClass; // Set while failed or waiting to retry a failure
+    browserVisible?: boolean; // A live view of the automation's page is open
+    profile?: string; // Seller profile the automation runs as
     progress?: number;
+    queuePosition?: number; // 1-based position while status is 'queued'
     details?: {
         sku?: string;
         asin?: string;
@@ -37,20 +62,258 @@ type AutomationStatus = {
     };
 }
 
+type ListingCondition = 'Used - Like New' | 'Used - Very Good' | 'Used - Good' | 'Used - Acceptable';
+
+// Priority lane: urgent jobs jump ahead of normal ones, bulk jobs run last
+type AutomationPriority = 'urgent' | 'normal' | 'bulk';
+
 type AutomationRequest = {
-    type: 'inventory' | 'orders' | 'createListing';
+    type: 'inventory' | 'orders' | 'createListing' | 'checkAsin';
+    priority?: AutomationPriority;
+    // createListing: fill the offer form but stop before "Save and finish"
+    dryRun?: boolean;
+    // Repeating a request with the same key returns the original automation (defaults to the SKU for listings)
+    idempotencyKey?: string;
+    // Seller profile to run as (defaults to the active profile)
+    profile?: string;
     params?: {
         asin?: string;
         sku?: string;
         price?: number;
-        condition?: 'Used - Like New' | 'Used - Very Good' | 'Used - Good' | 'Used - Acceptable';
+        condition?: ListingCondition;
         conditionNotes?: string;
+        // orders: ISO date range, and whether to skip orders already seen by a previous run
+        fromDate?: string;
+        toDate?: string;
+        incremental?: boolean;
     };
 }
 
+type BatchImportFormat = 'csv' | 'json';
+
+type BatchRowError = {
+    row: number; // 1-based data row
+    errors: string[];
+}
+
+// Outcome of a batch import. Nothing is queued unless every row is valid.
+type BatchImportResult = {
+    batchId?: string;
+    accepted: number;
+    errors: BatchRowError[];
+}
+
+type BatchReportRow = {
+    row: number;
+    automationId: string;
+    sku: string;
+    asin: string;
+    state: AutomationJobState;
+    fnsku?: string;
+    error?: string;
+}
+
+// One row of Seller Central's Manage Inventory page
+type InventoryRow = {
+    sku: string;
+    asin: string;
+    fnsku: string;
+    condition: string;
+    price?: number;
+    availableQuantity?: number;
+    inboundQuantity?: number;
+    status: string;
+}
+
+// One row of Seller Central's Manage Orders page
+type OrderRow = {
+    orderId: string;
+    orderDate: string; // ISO timestamp when the page's date could be parsed
+    sku: string;
+    asin: string;
+    quantity?: number;
+    itemPrice?: number;
+    fulfillmentChannel: string;
+    status: string;
+}
+
+// How listing prices are derived from the requested price (see pricingRules.ts)
+type PricingRules = {
+    conditionMultipliers: Partial<Record<ListingCondition, number>>; // e.g. 0.9 for Used - Acceptable
+    roundToNinetyNine: boolean; // Round to the nearest price ending in .99 (12 -> 11.99, 9.50 -> 9.99, 10.60 -> 10.99)
+    minimumPrice: number; // Floor applied after rounding; 0 for none
+    // Arithmetic on `price` and `requested`, e.g. "price * 1.5"; empty leaves List Price blank
+    listPriceFormula: string;
+    // Requests without a price fail ('required') or match the lowest used offer minus `undercut`
+    missingPriceMode: 'required' | 'matchLowestUsed';
+    undercut: number;
+    // Read competing offers from the offer page even when the request has a price
+    captureMarketPrices: boolean;
+    // When enabled, Your Price outside this range fails the listing as a likely typo (999 for 9.99)
+    sanityGuard: {
+        enabled: boolean;
+        minPrice: number;
+        maxPrice: number;
+    };
+}
+
+type ListingPricing = {
+    requestedPrice?: number; // Unset when the price was matched to the market
+    source: 'request' | 'lowestUsed';
+    price: number; // Your Price
+    listPrice?: number; // Unset when List Price was left empty
+    appliedRules: string[]; // e.g. "Used - Good x0.9", "rounded to .99"
+}
+
+// 'unknown' when the page gave no positive sign either way
+type ResearchCheck = boolean | 'unknown';
+
+// What the offer page says about an ASIN; a checkAsin automation reads it and creates nothing
+type AsinResearch = {
+    asin: string;
+    canList: ResearchCheck; // The offer form was shown without an approval or restriction message
+    restrictions: string[];
+    conditions: string[]; // Conditions the offer form lets us pick
+    hazmat: ResearchCheck; // Flagged as a dangerous good
+    dimensionsMissing: ResearchCheck;
+    marketPrices?: MarketPrices; // Unset when the page showed no market prices
+    checkedAt: string;
+}
+
+// Competing offers Seller Central shows on the offer page; fields it doesn't show are unset
+type MarketPrices = {
+    capturedAt: string;
+    currency: string;
+    buyBoxPrice?: number;
+    lowestNewPrice?: number;
+    lowestUsedPrice?: number;
+    offerCount?: number;
+}
+
+// What a dry-run createListing would have submitted, as read back from the form
+type ListingPreview = {
+    screenshotPath: string; // Full-page screenshot of the filled form
+    capturedAt: string;
+    values: {
+        asin: string;
+        sku: string;
+        price: string;
+        listPrice?: string;
+        condition?: string;
+        conditionNotes?: string;
+        fulfillment: 'FBA';
+    };
+}
+
+type AutomationResult = {
+    fnsku?: string;
+    error?: string;
+    errorClass?: AutomationErrorClass;
+    cancelled?: boolean;
+    inventory?: InventoryRow[];
+    orders?: OrderRow[];
+    currency?: string; // Currency of the inventory and order prices
+    preview?: ListingPreview;
+    pricing?: ListingPricing; // createListing: the prices the offer was filled with
+    marketPrices?: MarketPrices; // createListing: competing offers seen on the offer page
+    research?: AsinResearch;
+}
+
+type AutomationJobState = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+// Named steps of createListing, in order
+type ListingStep = 'navigate' | 'marketPrices' | 'fillOffer' | 'submit' | 'convertToFba' | 'captureFnsku' | 'prep' | 'dimensions';
+
+// What an attempt of createListing got done, so a retry can pick up from the failed step
+type ListingProgress = {
+    completedSteps: ListingStep[];
+    failedStep?: ListingStep;
+    fnsku?: string;
+    resumeUrl?: string; // Page to reopen when resuming after the offer was submitted
+    marketPrices?: MarketPrices;
+    pricing?: ListingPricing;
+}
+
+// Persisted record of an automation request (see jobStore.ts)
+type AutomationJob = {
+    id: string;
+    request: AutomationRequest;
+    state: AutomationJobState;
+    createdAt: string;
+    updatedAt: string;
+    attempts: number;
+    status?: AutomationStatus; // Last reported live status
+    result?: AutomationResult;
+    listingProgress?: ListingProgress; // createListing step checkpoint
+    retries?: Partial<Record<AutomationErrorClass, number>>; // Automatic retries spent per error class
+}
+
+// A console message or uncaught error reported by an automation page
+type PageDiagnostic = {
+    type: 'console' | 'pageerror';
+    level?: string; // console message type (error, warning, log...)
+    text: string;
+    timestamp: string;
+}
+
+// Debug artifacts saved when an automation fails
+type ArtifactBundle = {
+    automationId: string;
+    capturedAt: string;
+    url: string;
+    error: string;
+    request: AutomationRequest;
+    diagnostics: PageDiagnostic[];
+    files: {
+        screenshot?: string;
+        html?: string;
+    };
+}
+
+type ArtifactBundleExport = ArtifactBundle & {
+    screenshotDataUrl?: string;
+    html?: string;
+}
+
+// A recorded Playwright trace, listed as automation history in the app
+type TraceInfo = {
+    automationId: string;
+    recordedAt: string;
+    size: number; // Bytes
+    request?: AutomationRequest; // Missing once the job record has been pruned
+}
+
+// Result of the background session check (see sessionMonitor.ts)
+type SessionHealth = {
+    state: 'valid' | 'expiring' | 'expired' | 'unknown';
+    checkedAt: string;
+    expiresAt?: string; // Earliest login cookie expiry; missing when they last as long as the browser
+    remainingMinutes?: number; // Counted from when the status was read
+    error?: string; // Why the last check could not tell
+}
+
+type SessionHealthEvent = SessionHealth & {
+    profile: string;
+}
+
 type SetupStatus = {
     isConfigured: boolean;
     lastLogin?: string;
+    session?: SessionHealth;
+}
+
+// Sign-in details for unattended re-login, stored encrypted per seller profile
+type SellerCredentials = {
+    email: string;
+    password: string;
+    totpSecret?: string; // Base32 authenticator secret from Amazon's two-step verification setup
+}
+
+// What the UI sees of stored credentials; the password and secret stay in the main process
+type CredentialsInfo = {
+    email?: string;
+    hasPassword: boolean;
+    hasTotp: boolean;
 }
 
 type PrinterInfo = {
@@ -70,6 +333,54 @@ type PrintSettings = {
     orientation?: 'portrait' | 'landscape';  // New property for print orientation
 }
 
+type BrowserPoolSettings = {
+    maxBrowsers: number;       // Warm Firefox instances kept running
+    maxConcurrency: number;    // Automations sharing the pool at the same time
+    recycleAfterJobs: number;  // Restart a browser after it served this many automations
+}
+
+type SchedulerSettings = {
+    maxConcurrent: number; // Automations running at the same time
+    typeLimits: Partial<Record<AutomationRequest['type'], number>>; // Per-type caps within maxConcurrent
+}
+
+type TracingSettings = {
+    enabled: boolean; // Record a Playwright trace for every automation context
+    maxTraces: number; // Older traces are deleted beyond this many
+}
+
+// One seller account on one marketplace, with its own login session (see automationManager.ts)
+type SellerProfile = {
+    name: string; // Letters, digits, - and _; also names the profile's storage directory
+    sellerCentralUrl: string;
+    currency: string; // ISO 4217 code, e.g. 'CAD'
+    locale: string; // BCP 47 tag of the Seller Central pages, e.g. 'en-CA' or 'fr-CA'
+    printSettings?: PrintSettings; // Falls back to the shared printSettings when unset
+}
+
+type SessionMonitorSettings = {
+    enabled: boolean; // Check and refresh every profile's session in the background
+    intervalMinutes: number;
+    warnBeforeMinutes: number; // Warn this long before the login cookies expire
+}
+
+// Automation settings persisted in settings.json next to printSettings
+type AutomationSettings = {
+    browserPool: BrowserPoolSettings;
+    scheduler: SchedulerSettings;
+    tracing: TracingSettings;
+    sessionMonitor: SessionMonitorSettings;
+    // Run routine automations without a browser window; setup and re-login stay visible
+    headless: boolean;
+    retryPolicies: Record<AutomationErrorClass, RetryPolicy>;
+    pricing: PricingRules;
+    profiles: SellerProfile[];
+    // Profile used by requests without one, by setup and by the print settings screen
+    activeProfile: string;
+    // Run automations against the bundled fake Seller Central instead of the profiles' URLs
+    simulationMode: boolean;
+}
+
 // Update PrintOptions type to match Electron's WebContentsPrintOptions
 interface PrintOptions {
     silent?: boolean;
@@ -114,12 +425,29 @@ type EventPayloadMapping = {
     automationStatus: AutomationStatus;
     activeAutomationsCount: number; // Number of active automations
     getSetupStatus: SetupStatus;
+    sessionHealth: SessionHealthEvent;
+    checkSession: SetupStatus;
+    getCredentials: CredentialsInfo;
+    saveCredentials: CredentialsInfo;
+    deleteCredentials: CredentialsInfo;
     startSetup: string; // Returns automation ID
     completeSetup: void;
     getLogs: string;
     getPrinters: PrinterInfo[];
     getPrintSettings: PrintSettings;
     testPrint: boolean;
+    cancelAutomation: boolean;
+    pauseAutomation: boolean;
+    resumeAutomation: boolean;
+    retryAutomation: boolean;
+    getArtifacts: ArtifactBundleExport | null;
+    listTraces: TraceInfo[];
+    openTrace: boolean;
+    setBrowserVisible: boolean;
+    importBatch: BatchImportResult;
+    saveBatchReport: boolean;
+    getAutomationSettings: AutomationSettings;
+    saveAutomationSettings: AutomationSettings;
 }
 
 type UnsubscribeFunction = () => void;
@@ -134,13 +462,30 @@ interface Window {
         startAutomation: (request: AutomationRequest) => Promise<string>;
         subscribeAutomationStatus: (callback: (status: AutomationStatus) => void) => UnsubscribeFunction;
         subscribeActiveAutomationsCount: (callback: (count: number) => void) => UnsubscribeFunction;
-        getSetupStatus: () => Promise<SetupStatus>;
-        startSetup: () => Promise<string>;
+        getSetupStatus: (profile?: string) => Promise<SetupStatus>;
+        subscribeSessionHealth: (callback: (event: SessionHealthEvent) => void) => UnsubscribeFunction;
+        checkSession: (profile?: string) => Promise<SetupStatus>;
+        getCredentials: (profile?: string) => Promise<CredentialsInfo>;
+        saveCredentials: (credentials: SellerCredentials, profile?: string) => Promise<CredentialsInfo>;
+        deleteCredentials: (profile?: string) => Promise<CredentialsInfo>;
+        startSetup: (profile?: string) => Promise<string>;
         completeSetup: () => Promise<void>;
         getLogs: () => Promise<string>;
         getPrinters: () => Promise<PrinterInfo[]>;
-        getPrintSettings: () => Promise<PrintSettings>;
+        getPrintSettings: (profile?: string) => Promise<PrintSettings>;
         testPrint: (settings: PrintSettings) => Promise<boolean>;
+        cancelAutomation: (id: string) => Promise<boolean>;
+        pauseAutomation: (id: string) => Promise<boolean>;
+        resumeAutomation: (id: string) => Promise<boolean>;
+        retryAutomation: (id: string) => Promise<boolean>;
+        getArtifacts: (id: string) => Promise<ArtifactBundleExport | null>;
+        listTraces: () => Promise<TraceInfo[]>;
+        openTrace: (id: string) => Promise<boolean>;
+        setBrowserVisible: (id: string, visible: boolean) => Promise<boolean>;
+        importBatch: (content: string, format: BatchImportFormat) => Promise<BatchImportResult>;
+        saveBatchReport: (batchId: string) => Promise<boolean>;
+        getAutomationSettings: () => Promise<AutomationSettings>;
+        saveAutomationSettings: (settings: Partial<AutomationSettings>) => Promise<AutomationSettings>;
     };
 }
 